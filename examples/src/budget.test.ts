@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { BudgetExceededError, classifyError } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+test('runStreamed() stops with budget_exceeded once usage crosses maxTokens', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'budget-tokens',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            events: [
+              { type: 'init', provider: 'codex', ts: 0 },
+              { type: 'usage', provider: 'codex', stats: { inputTokens: 900, outputTokens: 300 }, ts: 0 },
+              { type: 'message', provider: 'codex', role: 'assistant', text: 'too late', ts: 0 },
+              { type: 'done', provider: 'codex', ts: 0 },
+            ],
+          },
+        ],
+      },
+    }),
+  );
+  const thread = await createCoder('budget-tokens', { budget: { maxTokens: 1000 } }).startThread();
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('spend')) events.push(event);
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['init', 'usage', 'cancelled', 'error'],
+  );
+  const error = events.at(-1);
+  assert.ok(error?.type === 'error');
+  assert.equal(error.code, 'budget_exceeded');
+  assert.match(error.message, /maxTokens 1000 \(used 1200\)/);
+});
+
+test('runStreamed() counts tool_use events against maxToolCalls', async () => {
+  const toolUse = { type: 'tool_use', provider: 'claude', name: 'Bash', ts: 0 } as const;
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'budget-tools',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        turns: [{ events: [toolUse, toolUse, toolUse, { type: 'done', provider: 'claude', ts: 0 }] }],
+      },
+    }),
+  );
+  const thread = await createCoder('budget-tools').startThread();
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('loop', { budget: { maxToolCalls: 2 } })) events.push(event);
+  assert.equal(events.filter(event => event.type === 'tool_use').length, 3);
+  assert.ok(!events.some(event => event.type === 'done'));
+  assert.ok(events.some(event => event.type === 'error' && event.code === 'budget_exceeded'));
+});
+
+test('run() is interrupted when maxDurationMs elapses', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'budget-clock',
+      fixture: { version: 1, turns: [{ delayMs: 5_000, result: { text: 'never' } }] },
+    }),
+  );
+  const thread = await createCoder('budget-clock').startThread();
+  const startedAt = Date.now();
+  await assert.rejects(thread.run('slow', { budget: { maxDurationMs: 50 } }), (error: unknown) => {
+    assert.ok(error instanceof BudgetExceededError);
+    assert.equal(classifyError(error), 'budget_exceeded');
+    assert.equal(error.budget?.limit, 'maxDurationMs');
+    return true;
+  });
+  assert.ok(Date.now() - startedAt < 2_000);
+});
+
+test('run() reports cost overruns with the completed result attached', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'budget-cost',
+      fixture: {
+        version: 1,
+        turns: [
+          { result: { text: 'expensive', usage: { costUsd: 2.5 } } },
+          { result: { text: 'unbounded', usage: { costUsd: 2.5 } } },
+        ],
+      },
+    }),
+  );
+  const thread = await createCoder('budget-cost', { budget: { maxCostUsd: 1 } }).startThread();
+  await assert.rejects(thread.run('first'), (error: any) => {
+    assert.equal(error.code, 'budget_exceeded');
+    assert.equal(error.result.text, 'expensive');
+    return true;
+  });
+  const result = await thread.run('second', { budget: false });
+  assert.equal(result.text, 'unbounded');
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { CoderStreamEvent, RunChanges } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { registerEditingAdapter, withWorkspace } from './test-helpers.js';
+
+/** Creates, modifies and deletes files the way an agent would, without reporting them in events. */
+function editWorkspace(dir: string): void {
+  writeFileSync(path.join(dir, 'app.txt'), 'edited\n');
+  writeFileSync(path.join(dir, 'added.txt'), 'new\n');
+  rmSync(path.join(dir, 'old.txt'), { force: true });
+}
+
+function seedWorkspace(dir: string): void {
+  writeFileSync(path.join(dir, 'app.txt'), 'original\n');
+  writeFileSync(path.join(dir, 'old.txt'), 'stale\n');
+}
+
+function assertChanges(changes: RunChanges | undefined) {
+  assert.deepEqual(
+    { created: changes?.created, modified: changes?.modified, deleted: changes?.deleted },
+    { created: ['added.txt'], modified: ['app.txt'], deleted: ['old.txt'] },
+  );
+  const app = changes!.files.find(file => file.path === 'app.txt');
+  assert.match(app!.patch, /-original\n\+edited/);
+}
+
+test(
+  'run results report working directory changes in git repositories',
+  withWorkspace(
+    dir => {
+      seedWorkspace(dir);
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' });
+      git('init', '-q');
+      git('add', '.');
+      git('-c', 'user.email=t@example.com', '-c', 'user.name=t', 'commit', '-q', '-m', 'init');
+    },
+    async dir => {
+      registerEditingAdapter('changes-git', editWorkspace);
+      const thread = await createCoder('changes-git', { workingDirectory: dir, trackChanges: true }).startThread();
+      const result = await thread.run('edit files');
+      assertChanges(result.changes);
+
+      const refs = execFileSync('git', ['for-each-ref', 'refs/headless-coder'], { cwd: dir, encoding: 'utf8' });
+      assert.equal(refs, '');
+      assert.equal((await thread.run('edit again', { trackChanges: false })).changes, undefined);
+    },
+  ),
+);
+
+test(
+  'streams announce the change report before done in plain directories',
+  withWorkspace(
+    seedWorkspace,
+    async dir => {
+      registerAdapter(createMockAdapter({ coderName: 'changes-copy' }));
+      const thread = await createCoder('changes-copy', { workingDirectory: dir }).startThread();
+      const events: CoderStreamEvent[] = [];
+      for await (const event of thread.runStreamed('edit files', { trackChanges: true })) {
+        if (!events.length) editWorkspace(dir);
+        events.push(event);
+      }
+
+      const report = events.at(-2);
+      assert.equal(report?.type === 'progress' && report.label, 'changes');
+      assert.equal(events.at(-1)?.type, 'done');
+      assertChanges(report?.type === 'progress' ? report.originalItem : undefined);
+    },
+  ),
+);
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { createCoder } from '@headless-coder-sdk/core/factory';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { registerEditingAdapter, withWorkspace } from './test-helpers.js';
+
+/** Overwrites `app.txt` and leaves stray files behind, like a turn that went wrong. */
+function trashWorkspace(dir: string): void {
+  writeFileSync(path.join(dir, 'app.txt'), 'trashed\n');
+  writeFileSync(path.join(dir, 'stray.txt'), 'generated\n');
+  mkdirSync(path.join(dir, 'build', 'out'), { recursive: true });
+  writeFileSync(path.join(dir, 'build', 'out', 'bundle.js'), 'generated\n');
+}
+
+test(
+  'git checkpoints diff and restore without touching the index or branches',
+  withWorkspace(
+    dir => {
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' });
+      git('init', '-q');
+      git('-c', 'user.email=t@example.com', '-c', 'user.name=t', 'commit', '-q', '--allow-empty', '-m', 'init');
+      writeFileSync(path.join(dir, 'app.txt'), 'original\n');
+    },
+    async dir => {
+      registerEditingAdapter('checkpoint-git', trashWorkspace);
+      const coder = createCoder('checkpoint-git', { workingDirectory: dir, checkpoint: true });
+      const thread = await coder.startThread();
+      const result = await thread.run('refactor everything');
+
+      assert.match(result.checkpoint!.diff, /-original\n\+trashed/);
+      assert.match(result.checkpoint!.diff, /\+\+\+ b\/stray\.txt/);
+      const [checkpoint] = await thread.listCheckpoints!();
+      assert.equal(checkpoint.id, result.checkpoint!.id);
+      assert.equal(checkpoint.strategy, 'git');
+      assert.equal(checkpoint.label, 'refactor everything');
+
+      await thread.restore!(checkpoint.id);
+      assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'original\n');
+      assert.ok(!existsSync(path.join(dir, 'stray.txt')));
+      assert.ok(!existsSync(path.join(dir, 'build')));
+      assert.equal(await thread.diffCheckpoint!(checkpoint.id), '');
+      const status = execFileSync('git', ['status', '--porcelain'], { cwd: dir, encoding: 'utf8' });
+      assert.equal(status, '?? app.txt\n');
+
+      await coder.close!(thread);
+      const refs = execFileSync('git', ['for-each-ref', 'refs/headless-coder'], { cwd: dir, encoding: 'utf8' });
+      assert.equal(refs, '');
+    },
+  ),
+);
+
+test(
+  'copy checkpoints cover directories that are not git repositories',
+  withWorkspace(
+    dir => writeFileSync(path.join(dir, 'app.txt'), 'original\n'),
+    async dir => {
+      registerEditingAdapter('checkpoint-copy', trashWorkspace);
+      const thread = await createCoder('checkpoint-copy', {
+        workingDirectory: dir,
+        checkpoint: { strategy: 'copy', maxCheckpoints: 1 },
+      }).startThread();
+
+      const events: CoderStreamEvent[] = [];
+      for await (const event of thread.runStreamed('first')) events.push(event);
+      assert.equal(events[0].type === 'progress' && events[0].label, 'checkpoint');
+      await thread.run('second');
+
+      const checkpoints = await thread.listCheckpoints!();
+      assert.deepEqual(checkpoints.map(checkpoint => checkpoint.label), ['second']);
+      writeFileSync(path.join(dir, 'app.txt'), 'edited again\n');
+      mkdirSync(path.join(dir, 'dist', 'assets'), { recursive: true });
+      writeFileSync(path.join(dir, 'dist', 'assets', 'index.js'), 'new\n');
+      assert.match(await thread.diffCheckpoint!(checkpoints[0].id), /-trashed\n\+edited again/);
+      await thread.restore!(checkpoints[0].id);
+      assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'trashed\n');
+      assert.ok(!existsSync(path.join(dir, 'dist')));
+      assert.ok(existsSync(path.join(dir, 'build', 'out', 'bundle.js')));
+      await assert.rejects(thread.restore!('cp-missing'), /Unknown checkpoint/);
+
+      assert.ok(existsSync(checkpoints[0].location));
+      await thread.close!();
+      assert.ok(!existsSync(checkpoints[0].location));
+    },
+  ),
+);
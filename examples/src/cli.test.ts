@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import { EXIT_FAILURE, EXIT_USAGE, main, toNdjson } from '@headless-coder-sdk/cli';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { capture } from './test-helpers.js';
+
+test('headless-coder run prints the answer and the thread id', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'cli-prompt',
+      fixture: {
+        version: 1,
+        threadId: 'thread-cli-1',
+        turns: [
+          { input: 'Name the release', result: { text: 'Release 4.2' } },
+          { input: 'Summarise the diff', result: { text: 'Two files changed' } },
+        ],
+      },
+    }),
+  );
+
+  const first = capture();
+  assert.equal(await main(['run', '--provider', 'cli-prompt', 'Name the release'], first.io), 0);
+  assert.equal(first.stdout(), 'Release 4.2\n');
+  assert.match(first.stderr(), /thread: thread-cli-1/);
+
+  const piped = capture('Summarise the diff');
+  assert.equal(await main(['resume', 'thread-cli-1', '-p', 'cli-prompt'], piped.io), 0);
+  assert.equal(piped.stdout(), 'Two files changed\n');
+});
+
+test('headless-coder run --stream writes normalized events as NDJSON', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'cli-stream',
+      fixture: { version: 1, turns: [{ result: { text: 'streamed answer' } }] },
+    }),
+  );
+
+  const cli = capture();
+  const code = await main(['run', '--provider=cli-stream', '--stream', '--format', 'json', 'Go'], cli.io);
+  assert.equal(code, 0, cli.stderr());
+  const events = cli
+    .stdout()
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line));
+  assert.deepEqual(events.map(event => event.type), ['init', 'message', 'done']);
+  assert.equal(events[1].text, 'streamed answer');
+});
+
+test('toNdjson() marks only real cycles as circular', () => {
+  const shared = { path: 'src/app.ts' };
+  const event: Record<string, unknown> = { type: 'progress', before: shared, after: shared, error: new Error('boom') };
+  event.self = event;
+  assert.deepEqual(JSON.parse(toNdjson(event)), {
+    type: 'progress',
+    before: { path: 'src/app.ts' },
+    after: { path: 'src/app.ts' },
+    error: { name: 'Error', message: 'boom' },
+    self: '[Circular]',
+  });
+});
+
+test('headless-coder run --schema validates structured output', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'cli-structured',
+      fixture: {
+        version: 1,
+        turns: [
+          { input: 'Assess the cache', result: { text: '{"risk":"low"}', json: { risk: 'low' } } },
+          { input: 'Assess the migration', result: { text: '{"risk":7}', json: { risk: 7 } } },
+        ],
+      },
+    }),
+  );
+
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-cli-'));
+  try {
+    const schemaPath = path.join(dir, 'risk.schema.json');
+    writeFileSync(
+      schemaPath,
+      JSON.stringify({ type: 'object', properties: { risk: { type: 'string' } }, required: ['risk'] }),
+    );
+    const args = ['run', '-p', 'cli-structured', '--schema', schemaPath];
+    const valid = capture();
+    assert.equal(await main([...args, 'Assess the cache'], valid.io), 0);
+    assert.deepEqual(JSON.parse(valid.stdout()), { risk: 'low' });
+
+    const invalid = capture();
+    const code = await main([...args, 'Assess the migration'], invalid.io);
+    assert.equal(code, EXIT_FAILURE);
+    assert.match(invalid.stderr(), /risk/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('headless-coder agents lists registered adapters and rejects bad arguments', async () => {
+  registerAdapter(createMockAdapter({ coderName: 'cli-listed', fixture: { version: 1, turns: [] } }));
+  const cli = capture();
+  assert.equal(await main(['agents', '--json'], cli.io), 0);
+  const agents = JSON.parse(cli.stdout());
+  assert.deepEqual(
+    agents.find((agent: { name: string }) => agent.name === 'cli-listed'),
+    { name: 'cli-listed', builtin: false, available: true },
+  );
+  assert.deepEqual(
+    agents.filter((agent: { builtin: boolean }) => agent.builtin).map((agent: { name: string }) => agent.name),
+    ['codex', 'claude', 'gemini'],
+  );
+
+  const usage = capture();
+  assert.equal(await main(['resume', '--provider', 'cli-listed', 'hello'], usage.io), EXIT_USAGE);
+  assert.equal(await main(['run', '--provider', 'cli-listed', '--sandbox', 'open', 'hi'], usage.io), EXIT_USAGE);
+  assert.match(usage.stderr(), /--sandbox must be one of/);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { ensemble } from '@headless-coder-sdk/core';
+import type { PromptInput } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+test('ensemble runs candidates and returns the judge pick with its rationale', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'ensemble-codex',
+      fixture: { version: 1, turns: [{ result: { text: 'Use a Map keyed by id.', usage: { inputTokens: 10 } } }] },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'ensemble-claude',
+      provider: 'claude',
+      fixture: { version: 1, turns: [{ result: { text: 'Use an array scan.', usage: { inputTokens: 20 } } }] },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'ensemble-gemini',
+      provider: 'gemini',
+      fixture: { version: 1, turns: [{ error: { message: 'model overloaded' } }] },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'ensemble-judge',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            result: {
+              json: { ranking: [1, 2], rationale: 'Candidate 1 is simpler for a handful of records.' },
+              usage: { inputTokens: 100 },
+            },
+          },
+        ],
+      },
+    }),
+  );
+
+  let judgePrompt: PromptInput | undefined;
+  const result = await ensemble(
+    [createCoder('ensemble-gemini'), createCoder('ensemble-claude'), createCoder('ensemble-codex')],
+    'How should lookups by id work?',
+    {
+      judge: createCoder('ensemble-judge'),
+      judgePrompt: (input, candidates) => {
+        judgePrompt = candidates.map(candidate => `${candidate.number}:${candidate.result.text}`).join('\n');
+        return `Judge: ${input}`;
+      },
+    },
+  );
+
+  assert.equal(judgePrompt, '1:Use an array scan.\n2:Use a Map keyed by id.');
+  assert.equal(result.chosen.index, 1);
+  assert.equal(result.chosen.provider, 'claude');
+  assert.equal(result.chosen.result.text, 'Use an array scan.');
+  assert.equal(result.rationale, 'Candidate 1 is simpler for a handful of records.');
+  assert.deepEqual(result.ranking, [1, 2]);
+  assert.ok(result.candidates[0].error instanceof Error);
+  assert.equal(result.totalUsage?.inputTokens, 130);
+});
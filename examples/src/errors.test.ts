@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import {
+  AuthError,
+  BinaryNotFoundError,
+  HeadlessCoderError,
+  RateLimitError,
+  classifyError,
+  isHeadlessCoderError,
+  isRetryableError,
+  toHeadlessCoderError,
+} from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createAdapter as createGeminiAdapter, CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+// Stand-in for a Gemini CLI whose credentials are missing.
+const LOGGED_OUT_GEMINI = `#!/usr/bin/env node
+if (process.argv.includes('--list-sessions')) process.exit(0);
+process.stdout.write(JSON.stringify({ type: 'error', message: 'Quota exceeded for model gemini-fake' }) + '\\n');
+process.stderr.write('Error: GEMINI_API_KEY is missing. Please log in.\\n');
+process.exit(41);
+`;
+
+test('provider failures are classified into stable codes', () => {
+  assert.equal(classifyError(new Error('401 Unauthorized')), 'auth');
+  assert.equal(classifyError('429 Too Many Requests'), 'rate_limited');
+  const spawnFailure = Object.assign(new Error('spawn gemini ENOENT'), { code: 'ENOENT', syscall: 'spawn gemini' });
+  assert.equal(classifyError(spawnFailure), 'binary_not_found');
+  assert.equal(classifyError(new Error('request timed out')), 'timeout');
+  assert.equal(classifyError(new Error('segfault')), 'provider_failure');
+
+  const wrapped = toHeadlessCoderError(new Error('rate limit reached'), 'codex');
+  assert.ok(wrapped instanceof RateLimitError);
+  assert.equal(wrapped.provider, 'codex');
+  assert.ok(wrapped.cause instanceof Error);
+  assert.equal(toHeadlessCoderError(wrapped), wrapped);
+  assert.ok(isRetryableError(wrapped));
+  assert.ok(!isRetryableError(new AuthError('bad key')));
+});
+
+test('busy threads reject with BusyError', async () => {
+  registerAdapter(
+    createMockAdapter({ coderName: 'errors-mock', fixture: { version: 1, turns: [{ delayMs: 200, result: {} }] } }),
+  );
+  const thread = await createCoder('errors-mock').startThread();
+  const first = thread.run('slow');
+  await assert.rejects(thread.run('again'), (error: unknown) => isHeadlessCoderError(error, 'busy'));
+  await first;
+});
+
+test('Gemini maps CLI failures onto the taxonomy', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-errors-'));
+  try {
+    const binary = path.join(dir, 'fake-gemini.cjs');
+    writeFileSync(binary, LOGGED_OUT_GEMINI);
+    chmodSync(binary, 0o755);
+    registerAdapter(createGeminiAdapter);
+
+    const loggedOut = await createCoder(GEMINI_CODER_NAME, {
+      workingDirectory: dir,
+      geminiBinaryPath: binary,
+    }).startThread();
+    await assert.rejects(loggedOut.run('hello'), (error: unknown) => error instanceof AuthError);
+    const events: CoderStreamEvent[] = [];
+    await assert.rejects(async () => {
+      for await (const event of loggedOut.runStreamed('hello')) events.push(event);
+    }, AuthError);
+    assert.equal(events[0]?.type === 'error' && events[0].code, 'rate_limited');
+
+    const missing = await createCoder(GEMINI_CODER_NAME, {
+      workingDirectory: dir,
+      geminiBinaryPath: path.join(dir, 'no-such-gemini'),
+    }).startThread();
+    await assert.rejects(missing.run('hello'), (error: unknown) => {
+      assert.ok(error instanceof BinaryNotFoundError);
+      assert.ok(error instanceof HeadlessCoderError);
+      assert.equal(error.provider, 'gemini');
+      return true;
+    });
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
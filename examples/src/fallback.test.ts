@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFallbackCoder, registerAdapter } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent, PromptInput, StartOpts } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+registerAdapter(
+  createMockAdapter({
+    coderName: 'fb-primary',
+    provider: 'claude',
+    fixture: {
+      version: 1,
+      turns: [
+        { input: 'first question', result: { text: 'first answer' } },
+        { error: { message: 'Claude run failed: overloaded' } },
+        { error: { message: 'Claude run failed: overloaded' } },
+      ],
+    },
+  }),
+);
+registerAdapter(
+  createMockAdapter({
+    coderName: 'fb-secondary',
+    provider: 'codex',
+    fixture: {
+      version: 1,
+      turns: [
+        { result: { text: 'second answer' } },
+        {
+          events: [
+            { type: 'message', provider: 'codex', role: 'assistant', text: 'streamed', ts: 0 },
+            { type: 'done', provider: 'codex', ts: 0 },
+          ],
+        },
+      ],
+    },
+  }),
+);
+
+test('fallback coder switches providers and replays the conversation', async () => {
+  const inputs: Array<{ provider: string; input: PromptInput }> = [];
+  const coder = createFallbackCoder(['fb-primary', 'fb-secondary'], undefined, {
+    coderOptions: {
+      middleware: [{ beforeRun: ctx => void inputs.push({ provider: ctx.provider, input: ctx.input }) }],
+    },
+  });
+  const thread = await coder.startThread();
+
+  const first = await thread.run('first question');
+  assert.equal(first.provider, 'claude');
+
+  const second = await thread.run('second question');
+  assert.equal(second.provider, 'codex');
+  assert.equal(second.text, 'second answer');
+  assert.equal(thread.provider, 'codex');
+  assert.deepEqual(inputs[2], {
+    provider: 'codex',
+    input: [
+      { role: 'user', content: 'first question' },
+      { role: 'assistant', content: 'first answer' },
+      { role: 'user', content: 'second question' },
+    ],
+  });
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('third question')) {
+    events.push(event);
+  }
+  const init = events[0];
+  assert.equal(init.type, 'init');
+  assert.equal(init.provider, 'codex');
+  assert.equal(events.filter(event => event.type === 'done').length, 1);
+});
+
+test('fallback coder reports the serving provider in the init event after switching mid-stream', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'fb-broken',
+      provider: 'gemini',
+      fixture: { version: 1, turns: [{ error: { message: 'gemini exited with code 1' } }] },
+    }),
+  );
+  const coder = createFallbackCoder(['fb-broken', 'fb-secondary']);
+  const thread = await coder.startThread();
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('hello')) {
+    events.push(event);
+  }
+  const labels = events.map(event => `${event.type}:${event.provider}`);
+  assert.ok(labels.includes('progress:gemini'));
+  assert.equal(labels[labels.length - 1], 'done:codex');
+  assert.ok(labels.indexOf('init:codex') > labels.indexOf('progress:gemini'));
+  assert.ok(!events.some(event => event.type === 'error'));
+});
+
+test('a failed resume rejects unless fresh threads on later providers are allowed', async () => {
+  const unresumable = Object.assign(
+    (defaults?: StartOpts) => ({
+      ...createMockAdapter({ fixture: { version: 1, turns: [] } })(defaults),
+      resumeThread: async () => Promise.reject(new Error('unknown session')),
+    }),
+    { coderName: 'fb-unresumable' },
+  );
+  registerAdapter(unresumable);
+
+  await assert.rejects(
+    createFallbackCoder(['fb-unresumable', 'fb-secondary']).resumeThread('thread-1'),
+    /unknown session/,
+  );
+
+  const switches: string[] = [];
+  const coder = createFallbackCoder(['fb-unresumable', 'fb-secondary'], undefined, {
+    startFreshOnResumeFailure: true,
+    onFallback: ({ from, to }) => switches.push(`${from} -> ${to}`),
+  });
+  const thread = await coder.resumeThread('thread-1');
+  assert.equal(thread.provider, 'codex');
+  assert.deepEqual(switches, ['fb-unresumable -> fb-secondary']);
+});
+
+test('budget overruns stay on the provider that hit them', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'fb-over-budget',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            events: [
+              { type: 'error', provider: 'claude', code: 'budget_exceeded', message: 'Budget exceeded', ts: 0 },
+            ],
+          },
+          { error: { message: 'Budget exceeded', code: 'budget_exceeded' } },
+        ],
+      },
+    }),
+  );
+  const switches: string[] = [];
+  const coder = createFallbackCoder(['fb-over-budget', 'fb-secondary'], undefined, {
+    onFallback: ({ to }) => switches.push(to),
+  });
+  const thread = await coder.startThread();
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('spend a lot')) {
+    events.push(event);
+  }
+  assert.deepEqual(
+    events.filter(event => event.type === 'error').map(event => event.code),
+    ['budget_exceeded'],
+  );
+  assert.ok(!events.some(event => event.type === 'progress' && event.label === 'fallback'));
+
+  await assert.rejects(thread.run('spend more'), { code: 'budget_exceeded' });
+  assert.deepEqual(switches, []);
+  assert.equal(thread.provider, 'claude');
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { createUnifiedPatch } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createAdapter as createGeminiAdapter, CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+
+// Stand-in for the Gemini CLI: announces two edit tools, applies them after a pause, then reports success.
+const FAKE_GEMINI = `#!/usr/bin/env node
+const fs = require('node:fs');
+if (process.argv.includes('--list-sessions')) process.exit(0);
+const emit = event => process.stdout.write(JSON.stringify(event) + '\\n');
+const pause = () => new Promise(resolve => setTimeout(resolve, 300));
+(async () => {
+  emit({ type: 'init', session_id: 'fake-session', model: 'gemini-fake' });
+  emit({ type: 'tool_use', tool_name: 'replace', tool_id: 't1', parameters: { file_path: 'notes.txt', old_string: 'beta', new_string: 'BETA' } });
+  await pause();
+  fs.writeFileSync('notes.txt', fs.readFileSync('notes.txt', 'utf8').replace('beta', 'BETA'));
+  emit({ type: 'tool_result', tool_id: 't1', status: 'success' });
+  emit({ type: 'tool_use', tool_name: 'write_file', tool_id: 't2', parameters: { file_path: 'new.txt', content: 'hello\\n' } });
+  await pause();
+  fs.writeFileSync('new.txt', 'hello\\n');
+  emit({ type: 'tool_result', tool_id: 't2', status: 'success' });
+  emit({ type: 'tool_use', tool_name: 'write_file', tool_id: 't3', parameters: { file_path: 'denied.txt', content: 'x' } });
+  emit({ type: 'tool_result', tool_id: 't3', status: 'error', error: { message: 'denied' } });
+  emit({ type: 'result', stats: { input_tokens: 1, output_tokens: 1 } });
+})();
+`;
+
+test('createUnifiedPatch() emits git-style hunks', () => {
+  assert.equal(createUnifiedPatch('a.txt', 'x\n', 'x\n'), '');
+  assert.equal(
+    createUnifiedPatch('a.txt', 'one\ntwo\nthree\n', 'one\n2\nthree\n'),
+    '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+2\n three\n',
+  );
+  assert.equal(createUnifiedPatch('new.txt', undefined, 'hi\n'), '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hi\n');
+});
+
+test('Gemini write_file/replace tools surface as file_change events with patches', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-file-change-'));
+  try {
+    const binary = path.join(dir, 'fake-gemini.cjs');
+    writeFileSync(binary, FAKE_GEMINI);
+    chmodSync(binary, 0o755);
+    writeFileSync(path.join(dir, 'notes.txt'), 'alpha\nbeta\ngamma\n');
+    registerAdapter(createGeminiAdapter);
+    const thread = await createCoder(GEMINI_CODER_NAME, {
+      workingDirectory: dir,
+      geminiBinaryPath: binary,
+    }).startThread();
+
+    const events: CoderStreamEvent[] = [];
+    for await (const event of thread.runStreamed('edit the notes')) events.push(event);
+    const changes = events.filter(event => event.type === 'file_change');
+    assert.deepEqual(
+      changes.map(event => event.type === 'file_change' && { path: event.path, op: event.op, patch: event.patch }),
+      [
+        {
+          path: 'notes.txt',
+          op: 'modify',
+          patch: '--- a/notes.txt\n+++ b/notes.txt\n@@ -1,3 +1,3 @@\n alpha\n-beta\n+BETA\n gamma\n',
+        },
+        { path: 'new.txt', op: 'create', patch: '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n' },
+      ],
+    );
+    assert.equal(readFileSync(path.join(dir, 'notes.txt'), 'utf8'), 'alpha\nBETA\ngamma\n');
+    assert.equal(events.at(-1)?.type, 'done');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import {
+  createMemoryTranscriptStore,
+  handoff,
+  type PromptInput,
+  type TranscriptRecord,
+} from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+test('handoff continues a conversation on another provider', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'handoff-planner',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        threadId: 'claude-session-7',
+        turns: [
+          { input: 'Plan the cache layer', result: { text: 'Use an LRU in src/cache.ts' } },
+          {
+            input: 'Write the interface',
+            events: [
+              { type: 'init', provider: 'claude', threadId: 'claude-session-7', ts: 1 },
+              { type: 'tool_use', provider: 'claude', name: 'Write', args: { path: 'src/cache.ts' }, ts: 2 },
+              { type: 'message', provider: 'claude', role: 'assistant', text: 'Interface written', ts: 3 },
+              { type: 'done', provider: 'claude', ts: 4 },
+            ],
+          },
+          { result: { text: 'Goal: LRU cache. Done: interface. Next: implement eviction.' } },
+        ],
+      },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'handoff-implementer',
+      fixture: {
+        version: 1,
+        turns: [
+          { threadId: 'codex-thread-3', result: { text: 'Eviction implemented' } },
+          { result: { text: 'Tests added' } },
+        ],
+      },
+    }),
+  );
+
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-handoff-'));
+  try {
+    const transcripts = createMemoryTranscriptStore();
+    const planner = createCoder('handoff-planner', { workingDirectory: dir }, { transcripts });
+    const source = await planner.startThread();
+    await source.run('Plan the cache layer');
+    for await (const _event of source.runStreamed('Write the interface')) {
+      // Drain the stream.
+    }
+
+    const inputs: PromptInput[] = [];
+    const next = await handoff(source, 'handoff-implementer', {
+      transcript: transcripts,
+      summary: true,
+      coderOptions: { middleware: [{ beforeRun: ctx => void inputs.push(ctx.input) }] },
+    });
+    assert.equal(next.provider, 'codex');
+    assert.equal(next.workingDirectory, dir);
+    assert.deepEqual(
+      { provider: next.handoff?.provider, threadId: next.handoff?.threadId, summary: next.handoff?.summary },
+      {
+        provider: 'claude',
+        threadId: 'claude-session-7',
+        summary: 'Goal: LRU cache. Done: interface. Next: implement eviction.',
+      },
+    );
+
+    assert.equal((await next.run('Implement eviction')).text, 'Eviction implemented');
+    assert.equal((await next.run('Add tests')).text, 'Tests added');
+    assert.equal(next.id, 'codex-thread-3');
+
+    const [seeded, plain] = inputs as string[];
+    assert.match(seeded, /^You are taking over a conversation that started in claude thread claude-session-7\./);
+    assert.ok(seeded.includes(`Working directory: ${dir}`));
+    assert.match(seeded, /User: Plan the cache layer\nAssistant: Use an LRU in src\/cache\.ts/);
+    assert.match(seeded, /User: Write the interface\nActivity: tool call Write \{"path":"src\/cache\.ts"\}/);
+    assert.match(seeded, /Summary from the previous agent:\n\nGoal: LRU cache\./);
+    assert.ok(seeded.endsWith('The new request follows.\n\nImplement eviction'));
+    assert.equal(plain, 'Add tests');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('handoff drops the oldest turns beyond the transcript budget', async () => {
+  registerAdapter(
+    createMockAdapter({ coderName: 'handoff-target', fixture: { version: 1, turns: [{ result: { text: 'ok' } }] } }),
+  );
+  const records = [1, 2, 3].flatMap((turn): TranscriptRecord[] => {
+    const base = { threadId: 'gemini-thread', runId: `run-${turn}`, provider: 'gemini', ts: turn } as const;
+    return [
+      { ...base, type: 'input', mode: 'run', input: `question ${turn}` },
+      { ...base, type: 'result', result: { text: `answer ${turn}` } },
+    ];
+  });
+  const source = await createCoder('handoff-target').startThread();
+  const next = await handoff(source, 'handoff-target', { transcript: records, maxTranscriptChars: 50 });
+  assert.match(next.handoff!.context, /\[2 earlier turn\(s\) omitted\]\n\nUser: question 3\nAssistant: answer 3/);
+  assert.doesNotMatch(next.handoff!.context, /question 1/);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { CoderMiddleware, CoderStreamEvent } from '@headless-coder-sdk/core';
+import { CODER_NAME as MOCK_CODER_NAME, createAdapter as createMock } from '@headless-coder-sdk/mock-adapter';
+
+registerAdapter(createMock);
+
+test('middleware rewrites input, transforms events and post-processes results', async () => {
+  const calls: string[] = [];
+  const redact: CoderMiddleware = {
+    name: 'redact',
+    beforeRun(ctx) {
+      calls.push(`before:${ctx.mode}`);
+      if (typeof ctx.input === 'string') {
+        ctx.input = ctx.input.replace(/sk-[a-z0-9]+/gi, '[redacted]');
+      }
+    },
+    onEvent(event) {
+      if (event.type === 'usage') return null;
+      if (event.type === 'message') return { ...event, text: event.text?.toUpperCase() };
+    },
+    afterRun(result, ctx) {
+      calls.push(`after:${ctx.mode}`);
+      return { ...result, text: `${result.text} (checked)` };
+    },
+  };
+
+  const coder = createCoder(MOCK_CODER_NAME, undefined, { middleware: [redact] });
+  const thread = await coder.startThread();
+
+  const result = await thread.run('token sk-abc123');
+  assert.equal(result.text, 'mock: token [redacted] (checked)');
+  assert.equal(coder.getThreadId(thread), thread.id);
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('hello')) {
+    events.push(event);
+  }
+  const message = events.find(event => event.type === 'message');
+  assert.equal(message?.type === 'message' ? message.text : undefined, 'MOCK: HELLO');
+  assert.deepEqual(calls, ['before:run', 'after:run', 'before:stream']);
+});
+
+test('onError observes failures without swallowing them', async () => {
+  const seen: unknown[] = [];
+  const coder = createCoder(MOCK_CODER_NAME, undefined, {
+    middleware: [
+      {
+        beforeRun() {
+          throw new Error('policy violation');
+        },
+        onError(error) {
+          seen.push(error);
+        },
+      },
+    ],
+  });
+  const thread = await coder.startThread();
+  await assert.rejects(thread.run('anything'), /policy violation/);
+  assert.equal(seen.length, 1);
+});
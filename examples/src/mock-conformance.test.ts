@@ -0,0 +1,26 @@
+import type { MockFixture } from '@headless-coder-sdk/mock-adapter';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { runConformanceSuite } from '@headless-coder-sdk/core/conformance';
+
+const STALL_MS = 60_000;
+const fixture: MockFixture = { version: 1, provider: 'codex', turns: [] };
+
+runConformanceSuite({
+  name: 'mock adapter',
+  factory: createMockAdapter({ fixture }),
+  backend: {
+    scriptTurn(turn) {
+      if (turn.kind === 'reply') {
+        fixture.turns.push({
+          events: [
+            { type: 'init', provider: 'codex', ts: 0 },
+            { type: 'message', provider: 'codex', role: 'assistant', text: turn.text, ts: 0 },
+            { type: 'done', provider: 'codex', ts: 0 },
+          ],
+        });
+        return;
+      }
+      fixture.turns.push({ delayMs: STALL_MS, result: { text: 'never delivered' } });
+    },
+  },
+});
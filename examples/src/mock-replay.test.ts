@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { clearRegisteredAdapters, createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import type { MockFixture } from '@headless-coder-sdk/mock-adapter';
+import {
+  CODER_NAME as MOCK_CODER_NAME,
+  createAdapter as createMock,
+  createMockAdapter,
+  loadFixture,
+  withRecording,
+} from '@headless-coder-sdk/mock-adapter';
+
+const FIXTURE: MockFixture = {
+  version: 1,
+  provider: 'codex',
+  threadId: 'thread-fixture',
+  turns: [
+    {
+      input: 'List two tasks we should automate.',
+      result: { text: '1. Releases\n2. Changelog' },
+    },
+    {
+      input: 'Stream a greeting.',
+      events: [
+        { type: 'init', provider: 'codex', threadId: 'thread-fixture', ts: 0 },
+        { type: 'message', provider: 'codex', role: 'assistant', text: 'Hel', delta: true, ts: 0 },
+        { type: 'message', provider: 'codex', role: 'assistant', text: 'lo', delta: true, ts: 0 },
+        { type: 'done', provider: 'codex', ts: 0 },
+      ],
+    },
+  ],
+};
+
+test('mock adapter replays scripted runs and streams', async () => {
+  clearRegisteredAdapters();
+  registerAdapter(createMockAdapter({ coderName: 'codex', fixture: FIXTURE }));
+  const coder = createCoder('codex');
+  const thread = await coder.startThread();
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('Stream a greeting.')) {
+    events.push(event);
+  }
+  assert.deepEqual(
+    events.map(event => event.type),
+    ['init', 'message', 'message', 'done'],
+  );
+
+  const result = await thread.run('List two tasks we should automate.');
+  assert.equal(result.text, '1. Releases\n2. Changelog');
+  assert.equal(result.threadId, 'thread-fixture');
+  assert.equal(coder.getThreadId(thread), 'thread-fixture');
+  await assert.rejects(thread.run('anything else'), /Mock script exhausted/);
+});
+
+test('mock adapter honours interrupts while replaying', async () => {
+  const coder = createMockAdapter({ fixture: FIXTURE, eventDelayMs: 50 })();
+  const thread = await coder.startThread();
+  const events: CoderStreamEvent[] = [];
+  setTimeout(() => void thread.interrupt?.('user cancel'), 75);
+  for await (const event of thread.runStreamed('Stream a greeting.')) {
+    events.push(event);
+  }
+  assert.ok(events.some(event => event.type === 'cancelled'));
+  assert.ok(events.some(event => event.type === 'error' && event.code === 'interrupted'));
+  assert.ok(!events.some(event => event.type === 'done'));
+});
+
+test('recorder captures a thread into a replayable fixture', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-fixtures-'));
+  const fixturePath = path.join(dir, 'echo.json');
+  try {
+    const recording = withRecording(createMock, { fixturePath });
+    const thread = await recording().startThread();
+    const live = await thread.run('ping');
+    for await (const _event of thread.runStreamed('pong')) {
+      // drain
+    }
+    // A second coder from the same factory appends to the same fixture instead of replacing it.
+    await (await recording().startThread()).run('again');
+
+    const fixture = await loadFixture(fixturePath);
+    assert.deepEqual(fixture.turns.map(turn => turn.input), ['ping', 'pong', 'again']);
+    assert.ok(fixture.turns[1].events?.some(event => event.type === 'done'));
+
+    clearRegisteredAdapters();
+    registerAdapter(createMockAdapter({ fixturePath }));
+    const replay = await createCoder(MOCK_CODER_NAME).startThread();
+    const replayed = await replay.run('ping');
+    assert.equal(replayed.text, live.text);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('recorded file changes are written back on replay', async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'headless-coder-fixture-files-'));
+  const [live, replayed] = [path.join(dir, 'live'), path.join(dir, 'replayed')];
+  const fixturePath = path.join(dir, 'files.json');
+  try {
+    const writer = createMockAdapter({
+      fixture: { version: 1, turns: [{ result: { text: 'written' }, files: { 'web/index.html': '<main></main>' } }] },
+    });
+    const recordingThread = await withRecording(writer, { fixturePath })({ workingDirectory: live }).startThread();
+    await recordingThread.run('Write the page');
+
+    const fixture = await loadFixture(fixturePath);
+    assert.deepEqual(fixture.turns[0].files, { 'web/index.html': '<main></main>' });
+
+    const replay = await createMockAdapter({ fixturePath })({ workingDirectory: replayed }).startThread();
+    for await (const _event of replay.runStreamed('Write the page')) {
+      // drain
+    }
+    assert.equal(await readFile(path.join(replayed, 'web/index.html'), 'utf8'), '<main></main>');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { extractJsonPayload, validateAgainstSchema } from '@headless-coder-sdk/core';
+import type { PromptInput } from '@headless-coder-sdk/core';
+import { createMockAdapter, withRecording } from '@headless-coder-sdk/mock-adapter';
+
+const schema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    issues: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['summary', 'issues'],
+  additionalProperties: false,
+};
+
+test('validateAgainstSchema() reports JSON pointer paths', () => {
+  assert.deepEqual(validateAgainstSchema(schema, { summary: 'ok', issues: [] }), []);
+  const issues = validateAgainstSchema(schema, { summary: 1, extra: true });
+  assert.deepEqual(issues.map(issue => issue.path).sort(), ['/extra', '/issues', '/summary']);
+  assert.equal(validateAgainstSchema(schema, undefined)[0].path, '');
+});
+
+test('extractJsonPayload() finds objects and arrays in prose and fences', () => {
+  assert.deepEqual(extractJsonPayload('Result: {"ok": true} as requested.'), { ok: true });
+  assert.deepEqual(extractJsonPayload('```json\n["a", "b"]\n```'), ['a', 'b']);
+  assert.deepEqual(extractJsonPayload('Issues: ["lint", "types"]'), ['lint', 'types']);
+  assert.equal(extractJsonPayload('no payload here'), undefined);
+});
+
+test('run() attaches validation errors without repairing by default', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'validation-report',
+      fixture: { version: 1, turns: [{ result: { text: '{"summary":"x"}', json: { summary: 'x' } } }] },
+    }),
+  );
+  const thread = await createCoder('validation-report').startThread();
+  const result = await thread.run('review', { outputSchema: schema });
+  assert.equal(result.validation?.valid, false);
+  assert.equal(result.validation?.repairAttempts, 0);
+  assert.deepEqual(result.validation?.errors.map(error => error.path), ['/issues']);
+});
+
+test('repair turns resend validation errors on the same thread until the output conforms', async () => {
+  const prompts: PromptInput[] = [];
+  registerAdapter(
+    withRecording(
+      createMockAdapter({
+        coderName: 'validation-repair',
+        fixture: {
+          version: 1,
+          turns: [
+            { result: { json: { summary: 'x' }, usage: { outputTokens: 10 } } },
+            { result: { json: { summary: 'x', issues: 'none' }, usage: { outputTokens: 5 } } },
+            { result: { json: { summary: 'x', issues: [] }, usage: { outputTokens: 5 } } },
+          ],
+        },
+      }),
+      { onTurn: turn => prompts.push(turn.input!) },
+    ),
+  );
+  const thread = await createCoder('validation-repair').startThread();
+  const result = await thread.run('review', { outputSchema: schema, repair: { maxAttempts: 3 } });
+  assert.deepEqual(result.json, { summary: 'x', issues: [] });
+  assert.deepEqual(result.validation, { valid: true, errors: [], repairAttempts: 2 });
+  assert.equal(result.usage?.outputTokens, 20);
+  assert.equal(prompts.length, 3);
+  assert.match(String(prompts[1]), /\/issues: must have required property 'issues'/);
+  assert.match(String(prompts[2]), /\/issues: must be array/);
+});
+
+test('repair stops after maxAttempts and returns the last result', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'validation-exhausted',
+      fixture: { version: 1, turns: [{ result: { json: {} } }, { result: { text: 'still not json' } }] },
+    }),
+  );
+  const thread = await createCoder('validation-exhausted').startThread();
+  const result = await thread.run('review', {
+    outputSchema: schema,
+    repair: { maxAttempts: 1, buildPrompt: errors => `fix ${errors.length} problems` },
+  });
+  assert.equal(result.text, 'still not json');
+  assert.equal(result.validation?.valid, false);
+  assert.equal(result.validation?.repairAttempts, 1);
+});
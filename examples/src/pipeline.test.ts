@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import { createPipeline, lookupPath } from '@headless-coder-sdk/core';
+import type { PipelineEvent } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+const reviewSchema = {
+  type: 'object',
+  properties: { approved: { type: 'boolean' }, comments: { type: 'string' } },
+  required: ['approved'],
+};
+
+test('plan, implement and review until the reviewer approves', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'pipeline-planner',
+      fixture: { version: 1, turns: [{ result: { text: '1. Add a cache', usage: { inputTokens: 5 } } }] },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'pipeline-implementer',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        turns: [{ result: { text: 'Added the cache.' } }, { result: { text: 'Added cache eviction.' } }],
+      },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'pipeline-reviewer',
+      provider: 'gemini',
+      fixture: {
+        version: 1,
+        turns: [
+          { result: { text: '{"approved": false, "comments": "Entries never expire."}' } },
+          { result: { text: '```json\n{"approved": true}\n```' } },
+        ],
+      },
+    }),
+  );
+
+  const pipeline = createPipeline({
+    vars: { ticket: 'PERF-12' },
+    steps: [
+      { name: 'plan', provider: 'pipeline-planner', prompt: 'Plan {{vars.ticket}}: {{input}}' },
+      {
+        name: 'review-loop',
+        maxIterations: 3,
+        until: context => lookupPath(context, 'steps.review.json.approved') === true,
+        steps: [
+          {
+            name: 'implement',
+            provider: 'pipeline-implementer',
+            prompt: 'Implement:\n{{steps.plan.text}}\nReviewer notes: {{steps.review.json.comments}}',
+          },
+          {
+            name: 'review',
+            provider: 'pipeline-reviewer',
+            prompt: 'Review round {{iteration}}: {{steps.implement.text}}',
+            runOpts: { outputSchema: reviewSchema },
+          },
+        ],
+      },
+    ],
+  });
+
+  const events: PipelineEvent[] = [];
+  for await (const event of pipeline.runStreamed('speed up lookups')) events.push(event);
+
+  const prompts = events.flatMap(event => (event.type === 'step_start' ? [[event.step, event.prompt]] : []));
+  assert.deepEqual(prompts, [
+    ['plan', 'Plan PERF-12: speed up lookups'],
+    ['implement', 'Implement:\n1. Add a cache\nReviewer notes: '],
+    ['review', 'Review round 1: Added the cache.'],
+    ['implement', 'Implement:\n1. Add a cache\nReviewer notes: Entries never expire.'],
+    ['review', 'Review round 2: Added cache eviction.'],
+  ]);
+  const messages = events.filter(event => event.type === 'message');
+  assert.deepEqual(
+    messages.map(event => `${event.step}#${event.iteration}`),
+    ['plan#1', 'implement#1', 'review#1', 'implement#2', 'review#2'],
+  );
+  const loopEnd = events.at(-1);
+  assert.ok(loopEnd?.type === 'loop_end' && loopEnd.completed && loopEnd.iterations === 2);
+});
+
+test('run() collects step results and failures name the step', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'pipeline-flaky',
+      fixture: {
+        version: 1,
+        turns: [{ result: { text: 'ok', usage: { inputTokens: 3 } } }, { error: { message: 'boom' } }],
+      },
+    }),
+  );
+  const pipeline = createPipeline({
+    steps: [
+      { name: 'first', provider: 'pipeline-flaky', prompt: 'one', session: 'shared' },
+      { name: 'skipped', provider: 'pipeline-flaky', prompt: 'never', when: () => false },
+      { name: 'second', provider: 'pipeline-flaky', prompt: 'two', session: 'shared' },
+    ],
+  });
+  await assert.rejects(pipeline.run(), (error: any) => {
+    assert.equal(error.step, 'second');
+    assert.match(error.message, /Pipeline step "second" failed: boom/);
+    return true;
+  });
+
+  const single = createPipeline({ steps: [{ name: 'only', provider: 'pipeline-flaky', prompt: 'one' }] });
+  const result = await single.run();
+  assert.equal(result.steps.only.text, 'ok');
+  assert.equal(result.usage?.inputTokens, 3);
+});
+
+test('steps issue repair turns when structured output does not match the schema', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'pipeline-repaired',
+      fixture: {
+        version: 1,
+        turns: [{ result: { text: 'Looks fine to me.' } }, { result: { text: '```json\n{"approved": true}\n```' } }],
+      },
+    }),
+  );
+  const pipeline = createPipeline({
+    steps: [
+      {
+        name: 'review',
+        provider: 'pipeline-repaired',
+        prompt: 'Review the change',
+        runOpts: { outputSchema: reviewSchema, repair: { maxAttempts: 1 } },
+      },
+    ],
+  });
+  const events: PipelineEvent[] = [];
+  for await (const event of pipeline.runStreamed()) events.push(event);
+  const done = events.filter(event => event.type === 'done');
+  assert.equal(done.length, 2);
+  const stepResult = events.find(event => event.type === 'step_result');
+  assert.ok(stepResult && stepResult.type === 'step_result');
+  assert.deepEqual(stepResult.result.json, { approved: true });
+  assert.deepEqual(stepResult.result.validation, { valid: true, errors: [], repairAttempts: 1 });
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { race } from '@headless-coder-sdk/core';
+import type { Provider, RunResult, StartOpts } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+const summarySchema = {
+  type: 'object',
+  properties: { summary: { type: 'string' } },
+  required: ['summary'],
+} as const;
+
+function register(provider: Provider, delayMs: number, result: RunResult) {
+  registerAdapter(
+    createMockAdapter({
+      coderName: `race-${provider}`,
+      provider,
+      fixture: { version: 1, turns: [{ delayMs, result }] },
+    }),
+  );
+}
+
+test('race returns the first valid result and interrupts the rest', async () => {
+  register('codex', 20, { text: 'not json', usage: { inputTokens: 10, outputTokens: 2 } });
+  register('claude', 60, { json: { summary: 'done' }, usage: { inputTokens: 30, outputTokens: 5 } });
+  register('gemini', 2_000, { json: { summary: 'too late' } });
+
+  const started = Date.now();
+  const result = await race(
+    ['race-codex', 'race-claude', 'race-gemini'].map(name => createCoder(name)),
+    'Summarise the repository',
+    { outputSchema: summarySchema },
+  );
+
+  assert.ok(Date.now() - started < 1_000, 'losers should be interrupted, not awaited');
+  assert.equal(result.provider, 'claude');
+  assert.deepEqual(result.json, { summary: 'done' });
+  assert.equal(await result.settled, result.candidates);
+  assert.deepEqual(
+    result.candidates.map(candidate => [candidate.provider, candidate.status]),
+    [
+      ['codex', 'rejected'],
+      ['claude', 'won'],
+      ['gemini', 'cancelled'],
+    ],
+  );
+  assert.equal(result.candidates[0].usage?.inputTokens, 10);
+  assert.equal(result.totalUsage?.inputTokens, 40);
+  assert.equal(result.thread, undefined);
+});
+
+test('race returns without waiting for losers that ignore interrupts', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'race-fast',
+      provider: 'codex',
+      fixture: { version: 1, turns: [{ delayMs: 10, result: { text: 'fast' } }] },
+    }),
+  );
+  const stubborn = Object.assign(
+    (defaults?: StartOpts) => {
+      const coder = createMockAdapter({
+        provider: 'gemini',
+        fixture: { version: 1, turns: [{ delayMs: 1_500, result: { text: 'slow', usage: { inputTokens: 7 } } }] },
+      })(defaults);
+      return {
+        ...coder,
+        startThread: async (opts?: StartOpts) => ({ ...(await coder.startThread(opts)), interrupt: async () => {} }),
+      };
+    },
+    { coderName: 'race-stubborn' },
+  );
+  registerAdapter(stubborn);
+
+  const started = Date.now();
+  const result = await race([createCoder('race-fast'), createCoder('race-stubborn')], 'hello');
+
+  assert.ok(Date.now() - started < 1_000, 'the winner should not wait for a loser that keeps running');
+  assert.equal(result.text, 'fast');
+  assert.equal(result.candidates[1].status, 'running');
+  const reports = await result.settled;
+  assert.equal(reports[1].status, 'lost');
+  assert.equal(reports[1].usage?.inputTokens, 7);
+});
+
+test('race rejects with every failure when nobody wins', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'race-broken',
+      fixture: { version: 1, turns: [{ error: { message: '503 upstream unavailable' } }] },
+    }),
+  );
+  await assert.rejects(
+    race([createCoder('race-broken'), createCoder('race-broken')], 'hello'),
+    (error: unknown) => {
+      assert.ok(error instanceof AggregateError);
+      assert.equal(error.errors.length, 2);
+      return true;
+    },
+  );
+});
@@ -1,23 +1,56 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
 import { registerAdapter } from '@headless-coder-sdk/core/factory';
-import {
-  CODER_NAME as CODEX_CODER_NAME,
-  createAdapter as createCodexAdapter,
-} from '@headless-coder-sdk/codex-adapter';
-import {
-  CODER_NAME as CLAUDE_CODER_NAME,
-  createAdapter as createClaudeAdapter,
-} from '@headless-coder-sdk/claude-adapter';
-import {
-  CODER_NAME as GEMINI_CODER_NAME,
-  createAdapter as createGeminiAdapter,
-} from '@headless-coder-sdk/gemini-adapter';
+import type { AdapterFactory, Provider } from '@headless-coder-sdk/core';
+import { createAdapter as createCodexAdapter } from '@headless-coder-sdk/codex-adapter';
+import { createAdapter as createClaudeAdapter } from '@headless-coder-sdk/claude-adapter';
+import { createAdapter as createGeminiAdapter } from '@headless-coder-sdk/gemini-adapter';
+import { createMockAdapter, withRecording } from '@headless-coder-sdk/mock-adapter';
+
+/**
+ * Adapters replay fixtures from this directory (the committed `examples/fixtures` unless overridden) instead of calling
+ * live providers. Suites without a fixture for a provider keep the live adapter.
+ */
+const FIXTURES_DIR =
+  process.env.HEADLESS_CODER_FIXTURES ?? path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+/**
+ * When set to 1, every suite runs against the live providers even where a fixture exists.
+ */
+const LIVE = process.env.HEADLESS_CODER_LIVE === '1';
+/**
+ * When set, live adapter traffic is recorded into fixtures under this directory.
+ */
+const RECORD_DIR = process.env.HEADLESS_CODER_RECORD;
 
 let registered = false;
 
 export function ensureAdaptersRegistered(): void {
   if (registered) return;
-  registerAdapter(createCodexAdapter);
-  registerAdapter(createClaudeAdapter);
-  registerAdapter(createGeminiAdapter);
+  const factories: AdapterFactory[] = [createCodexAdapter, createClaudeAdapter, createGeminiAdapter];
+  for (const factory of factories) {
+    registerAdapter(decorateFactory(factory));
+  }
   registered = true;
 }
+
+function decorateFactory(factory: AdapterFactory): AdapterFactory {
+  const provider = factory.coderName as Provider;
+  if (RECORD_DIR) {
+    return withRecording(factory, { fixturePath: fixturePathFor(RECORD_DIR, provider) });
+  }
+  const fixturePath = fixturePathFor(FIXTURES_DIR, provider);
+  if (!LIVE && existsSync(fixturePath)) {
+    return createMockAdapter({ coderName: provider, provider, fixturePath });
+  }
+  return factory;
+}
+
+/**
+ * Fixtures are keyed by test file so parallel suites never write to the same file.
+ */
+function fixturePathFor(dir: string, provider: string): string {
+  const suite = path.basename(process.argv[1] ?? 'session').replace(/\.test\.[cm]?[jt]s$/, '');
+  return path.resolve(dir, `${suite}.${provider}.json`);
+}
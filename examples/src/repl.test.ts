@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import { createReplSession, main } from '@headless-coder-sdk/cli';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { capture } from './test-helpers.js';
+
+test('chat keeps one thread across turns and handles slash commands', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'repl-pair',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            threadId: 'repl-thread-1',
+            result: { text: 'The parser lives in src/parse.ts', usage: { inputTokens: 10, outputTokens: 4 } },
+          },
+          { result: { text: 'It has 3 exported functions', usage: { inputTokens: 12, outputTokens: 5 } } },
+          { threadId: 'repl-thread-2', result: { text: 'Forked answer' } },
+        ],
+      },
+    }),
+  );
+
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-repl-'));
+  try {
+    const cli = capture();
+    const session = await createReplSession({ provider: 'repl-pair' }, cli.io);
+    assert.equal(await session.handle('Where is the parser?'), true);
+    const thread = session.thread;
+    await session.handle('How many exports?');
+    assert.equal(session.thread, thread);
+    assert.equal(session.threadId, 'repl-thread-1');
+    assert.match(cli.stdout(), /src\/parse\.ts[\s\S]*3 exported functions/);
+
+    await session.handle('/usage');
+    assert.match(cli.stdout(), /last turn: 12 in \/ 5 out tokens[\s\S]*session: 22 in \/ 9 out tokens/);
+
+    const transcriptPath = path.join(dir, 'session.md');
+    await session.handle(`/save ${transcriptPath}`);
+    const markdown = readFileSync(transcriptPath, 'utf8');
+    assert.match(markdown, /## User\n\nWhere is the parser\?\n\n## Assistant\n\nThe parser lives in src\/parse\.ts/);
+
+    await session.handle('/fork');
+    assert.notEqual(session.thread, thread);
+    await session.handle('Rename it');
+    assert.equal(session.threadId, 'repl-thread-2');
+    assert.match(cli.stdout(), /Forked from repl-thread-1[\s\S]*Forked answer/);
+
+    await session.handle('/nope');
+    assert.match(cli.stdout(), /Unknown command \/nope/);
+    assert.equal(await session.handle('/exit'), false);
+    await session.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('interrupting a turn keeps the chat session usable', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'repl-slow',
+      fixture: {
+        version: 1,
+        turns: [
+          { input: 'Refactor everything', delayMs: 5_000, result: { text: 'never shown' } },
+          { input: 'Just the tests', result: { text: 'Tests refactored' } },
+        ],
+      },
+    }),
+  );
+
+  const cli = capture();
+  const session = await createReplSession({ provider: 'repl-slow' }, cli.io);
+  assert.equal(session.interrupt(), false);
+  const turn = session.handle('Refactor everything');
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.equal(session.interrupt(), true);
+  await turn;
+  await session.handle('Just the tests');
+  const output = cli.stdout();
+  assert.match(output, /✖ cancelled/);
+  assert.doesNotMatch(output, /never shown/);
+  assert.match(output, /Tests refactored/);
+  await session.close();
+});
+
+test('headless-coder chat reads turns from stdin until /exit', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'repl-stdin',
+      fixture: { version: 1, threadId: 'repl-stdin-thread', turns: [{ result: { text: 'Hello from the mock' } }] },
+    }),
+  );
+
+  const cli = capture('Hi\n/exit\nignored\n');
+  assert.equal(await main(['chat', '--provider', 'repl-stdin'], cli.io), 0);
+  const output = cli.stdout();
+  assert.match(output, /Chatting with repl-stdin/);
+  assert.match(output, /repl-stdin> [\s\S]*Hello from the mock/);
+  assert.match(cli.stderr(), /thread: repl-stdin-thread/);
+});
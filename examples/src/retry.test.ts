@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+const FAST_RETRY = { maxAttempts: 3, initialDelayMs: 1, jitter: 0 };
+
+test('run() retries transient failures against the same thread', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'retry-run',
+      fixture: {
+        version: 1,
+        turns: [
+          { error: { message: 'Claude run failed: 529 overloaded_error' } },
+          { error: { message: 'rate limit exceeded' } },
+          { result: { text: 'third time lucky' } },
+        ],
+      },
+    }),
+  );
+  const retries: number[] = [];
+  const coder = createCoder('retry-run', { retry: { ...FAST_RETRY, onRetry: info => retries.push(info.attempt) } });
+  const thread = await coder.startThread();
+  const result = await thread.run('flaky');
+  assert.equal(result.text, 'third time lucky');
+  assert.deepEqual(retries, [2, 3]);
+});
+
+test('run() surfaces non-transient failures immediately', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'retry-fatal',
+      fixture: { version: 1, turns: [{ error: { message: 'invalid api key' } }, { result: { text: 'unreachable' } }] },
+    }),
+  );
+  const thread = await createCoder('retry-fatal').startThread();
+  await assert.rejects(thread.run('fatal', { retry: FAST_RETRY }), /invalid api key/);
+});
+
+test('runStreamed() labels retries and never duplicates done', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'retry-stream',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            events: [
+              { type: 'init', provider: 'codex', ts: 0 },
+              { type: 'error', provider: 'codex', code: 'turn.failed', message: '503 service unavailable', ts: 0 },
+            ],
+          },
+          {
+            events: [
+              { type: 'message', provider: 'codex', role: 'assistant', text: 'recovered', ts: 0 },
+              { type: 'done', provider: 'codex', ts: 0 },
+            ],
+          },
+        ],
+      },
+    }),
+  );
+  const thread = await createCoder('retry-stream').startThread();
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('flaky stream', { retry: FAST_RETRY })) {
+    events.push(event);
+  }
+  assert.deepEqual(
+    events.map(event => (event.type === 'progress' ? `progress:${event.label}` : event.type)),
+    ['init', 'progress:retry', 'message', 'done'],
+  );
+});
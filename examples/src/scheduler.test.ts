@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { InterruptedError, createScheduler } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+registerAdapter(
+  createMockAdapter({
+    coderName: 'scheduler-mock',
+    provider: 'gemini',
+    fixture: { version: 1, turns: Array.from({ length: 4 }, () => ({ delayMs: 100, result: { text: 'ok' } })) },
+  }),
+);
+
+test('overlapping runs on one thread queue instead of failing as busy', async () => {
+  const scheduler = createScheduler();
+  const thread = await createCoder('scheduler-mock', undefined, { scheduler }).startThread();
+
+  const runs = [thread.run('one'), thread.run('two'), thread.run('three')];
+  assert.equal(scheduler.stats().queued, 2);
+  const results = await Promise.all(runs);
+  assert.deepEqual(results.map(result => result.text), ['ok', 'ok', 'ok']);
+
+  const stats = scheduler.stats();
+  assert.equal(stats.completed, 3);
+  assert.equal(stats.running, 0);
+  assert.equal(stats.wait.count, 3);
+  assert.ok(stats.wait.maxMs >= 150, `expected the last run to wait, got ${stats.wait.maxMs}ms`);
+});
+
+test('global and per-provider limits cap runs across threads', async () => {
+  const scheduler = createScheduler({ maxConcurrency: 3, perProvider: { gemini: 2 } });
+  const coder = createCoder('scheduler-mock', undefined, { scheduler });
+  const threads = await Promise.all([1, 2, 3, 4].map(() => coder.startThread()));
+
+  const runs = threads.map(thread => thread.run('go'));
+  assert.equal(scheduler.stats().running, 2);
+  assert.deepEqual(scheduler.stats().providers.gemini, { running: 2, queued: 2 });
+  await Promise.all(runs);
+  assert.equal(scheduler.stats().completed, 4);
+});
+
+test('queued runs can be cancelled before they start', async () => {
+  const scheduler = createScheduler({ maxConcurrency: 1 });
+  const coder = createCoder('scheduler-mock', undefined, { scheduler });
+  const [first, second] = await Promise.all([coder.startThread(), coder.startThread()]);
+
+  const running = first.run('first');
+  const controller = new AbortController();
+  const queued = second.run('second', { signal: controller.signal });
+  const streamed: CoderStreamEvent[] = [];
+  const stream = (async () => {
+    for await (const event of second.runStreamed('third')) streamed.push(event);
+  })();
+  await new Promise(resolve => setImmediate(resolve));
+
+  controller.abort('no longer needed');
+  await assert.rejects(queued, InterruptedError);
+  await second.interrupt?.('shutting down');
+  await stream;
+  assert.deepEqual(streamed.map(event => event.type), ['cancelled', 'error']);
+  assert.equal(scheduler.stats().queued, 0);
+  await running;
+  assert.equal(scheduler.stats().completed, 1);
+});
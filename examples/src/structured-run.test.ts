@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { runStructured } from '@headless-coder-sdk/core';
+import type { FromSchema } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+const reviewSchema = {
+  type: 'object',
+  properties: {
+    verdict: { enum: ['approve', 'request_changes'] },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { file: { type: 'string' }, line: { type: 'integer' }, note: { type: ['string', 'null'] } },
+        required: ['file', 'note'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['verdict', 'findings'],
+  additionalProperties: false,
+} as const;
+
+type Review = FromSchema<typeof reviewSchema>;
+
+const review: Review = { verdict: 'approve', findings: [{ file: 'a.ts', note: null }, { file: 'b.ts', line: 3, note: 'x' }] };
+
+test('runStructured() returns json typed from the schema literal', async () => {
+  registerAdapter(
+    createMockAdapter({ coderName: 'structured-schema', fixture: { version: 1, turns: [{ result: { json: review } }] } }),
+  );
+  const thread = await createCoder('structured-schema').startThread();
+  const result = await runStructured(thread, 'review', reviewSchema);
+  const verdict: 'approve' | 'request_changes' = result.json!.verdict;
+  const line: number | undefined = result.json!.findings[1].line;
+  // @ts-expect-error unknown properties are rejected when additionalProperties is false
+  void result.json!.summary;
+  assert.equal(verdict, 'approve');
+  assert.equal(line, 3);
+});
+
+test('runStructured() rejects payloads that violate the schema', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'structured-invalid',
+      fixture: { version: 1, turns: [{ result: { json: { verdict: 'maybe', findings: [] } } }] },
+    }),
+  );
+  const thread = await createCoder('structured-invalid').startThread();
+  await assert.rejects(runStructured(thread, 'review', reviewSchema), (error: any) => {
+    assert.equal(error.code, 'schema_violation');
+    assert.equal(error.validation[0].path, '/verdict');
+    assert.deepEqual(error.result.json, { verdict: 'maybe', findings: [] });
+    return true;
+  });
+});
+
+test('runStructured() infers T from a parse function', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'structured-parse',
+      fixture: { version: 1, turns: [{ result: { json: { count: '3' } } }, { result: { json: {} } }] },
+    }),
+  );
+  const thread = await createCoder('structured-parse').startThread();
+  const parse = (value: unknown) => {
+    const count = Number((value as { count?: unknown })?.count);
+    if (Number.isNaN(count)) throw new Error('count must be numeric');
+    return { count };
+  };
+  const result = await runStructured(thread, 'count', { type: 'object' }, { parse });
+  const count: number = result.json!.count;
+  assert.equal(count, 3);
+  await assert.rejects(runStructured(thread, 'count', { type: 'object' }, { parse }), /count must be numeric/);
+});
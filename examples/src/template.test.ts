@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { createPromptTemplate } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+function createWorkspace() {
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-template-'));
+  mkdirSync(path.join(dir, 'src', 'api'), { recursive: true });
+  mkdirSync(path.join(dir, 'node_modules', 'dep'), { recursive: true });
+  writeFileSync(path.join(dir, 'CONTRIBUTING.md'), 'Run the linter before pushing.\n');
+  writeFileSync(path.join(dir, 'src', 'api', 'users.ts'), 'export const users = [];\n');
+  writeFileSync(path.join(dir, 'src', 'api', 'orders.ts'), `export const orders = '${'x'.repeat(100)}';\n`);
+  writeFileSync(path.join(dir, 'src', 'index.js'), 'import "./api";\n');
+  writeFileSync(path.join(dir, 'node_modules', 'dep', 'index.ts'), 'ignored\n');
+  return dir;
+}
+
+test('templates render variables, partials and inlined files with size limits', async () => {
+  const dir = createWorkspace();
+  try {
+    const template = createPromptTemplate({
+      name: 'review',
+      template: 'Review {{ticket}} ({{labels}}) for {{reviewer.name}}.\n{{> rules}}\n{{@glob src/**/*.{ts,tsx}}}',
+      variables: {
+        ticket: { type: 'string' },
+        labels: { type: 'array', default: ['api'] },
+        reviewer: { type: 'object' },
+      },
+      partials: { rules: 'Rules:\n{{@file CONTRIBUTING.md}}' },
+      limits: { maxFileBytes: 40 },
+    });
+
+    const rendered = await template.render({ ticket: 'API-7', reviewer: { name: 'sam' } }, { workingDirectory: dir });
+    const input = rendered.input as string;
+    assert.ok(input.startsWith('Review API-7 ([\n  "api"\n]) for sam.\nRules:\n'));
+    assert.match(input, /File: CONTRIBUTING\.md\n```\nRun the linter before pushing\.\n```/);
+    assert.match(input, /File: src\/api\/users\.ts\n```\nexport const users = \[\];\n```/);
+    assert.match(input, /File: src\/api\/orders\.ts[\s\S]*\[truncated: 40 of 126 bytes shown\]/);
+    assert.doesNotMatch(input, /index\.js|ignored/);
+    assert.deepEqual(rendered.variables, { ticket: 'API-7', labels: ['api'], reviewer: { name: 'sam' } });
+    assert.deepEqual(
+      rendered.files.map(file => [file.path, file.truncated]),
+      [
+        ['CONTRIBUTING.md', false],
+        ['src/api/orders.ts', true],
+        ['src/api/users.ts', false],
+      ],
+    );
+
+    await assert.rejects(template.render({ ticket: 7 as any, reviewer: {} }), /"ticket" must be of type string/);
+    await assert.rejects(template.render({ reviewer: {} } as any), /Missing prompt variable "ticket"/);
+    const escape = createPromptTemplate({ template: '{{@file ../secrets.txt}}' });
+    await assert.rejects(escape.render({}, { workingDirectory: dir }), /outside the working directory/);
+
+    writeFileSync(path.join(dir, '..env.example'), 'API_URL=\n');
+    const dotted = createPromptTemplate({ template: '{{@file ..env.example}}' });
+    assert.match((await dotted.render({}, { workingDirectory: dir })).input as string, /API_URL=/);
+    const outside = mkdtempSync(path.join(tmpdir(), 'headless-coder-template-outside-'));
+    try {
+      writeFileSync(path.join(outside, 'secrets.txt'), 'token\n');
+      symlinkSync(path.join(outside, 'secrets.txt'), path.join(dir, 'linked.txt'));
+      const linked = createPromptTemplate({ template: '{{@file linked.txt}}' });
+      await assert.rejects(linked.render({}, { workingDirectory: dir }), /outside the working directory/);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('rendered prompts are reported on the init event', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'template-reported',
+      fixture: { version: 1, turns: [{ result: { text: 'Looks good' } }] },
+    }),
+  );
+  const template = createPromptTemplate({
+    template: [
+      { role: 'system', content: 'You review {{language}} code.' },
+      { role: 'user', content: 'Check {{file}}' },
+    ],
+    variables: { language: { type: 'string', default: 'TypeScript' }, file: { type: 'string' } },
+    flatten: true,
+  });
+  const rendered = await template.render({ file: 'src/app.ts' });
+  assert.equal(rendered.input, 'system: You review TypeScript code.\n\nuser: Check src/app.ts');
+
+  const thread = await createCoder('template-reported').startThread();
+  const events = [];
+  for await (const event of thread.runStreamed(rendered.input, { prompt: rendered })) {
+    events.push(event);
+  }
+  const init = events.find(event => event.type === 'init');
+  assert.deepEqual(init && 'prompt' in init ? init.prompt : undefined, rendered);
+});
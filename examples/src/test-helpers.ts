@@ -0,0 +1,52 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import type { HeadlessCoder, StartOpts } from '@headless-coder-sdk/core';
+import { createMockAdapter, withRecording } from '@headless-coder-sdk/mock-adapter';
+
+/**
+ * In-memory CliIO for driving `main()`; `stdout()`/`stderr()` return what was written since the last read.
+ */
+export function capture(stdinText?: string) {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const stdin = stdinText === undefined ? undefined : PassThrough.from([stdinText]);
+  const read = (stream: PassThrough) => () => String(stream.read() ?? '');
+  return { io: { stdout, stderr, stdin }, stdout: read(stdout), stderr: read(stderr) };
+}
+
+/**
+ * Wraps a test body so it runs in a fresh temp directory prepared by `init`, which is removed afterwards.
+ */
+export function withWorkspace(init: (dir: string) => void, body: (dir: string) => Promise<void>) {
+  return async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-workspace-'));
+    try {
+      init(dir);
+      await body(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * Registers a mock coder whose turns call `edit` with the thread's working directory, the way an agent edits files.
+ */
+export function registerEditingAdapter(coderName: string, edit: (cwd: string) => void): void {
+  let cwd = '';
+  const recording = withRecording(createMockAdapter({ coderName }), { onTurn: () => edit(cwd) });
+  const factory = (defaults?: StartOpts): HeadlessCoder => {
+    const coder = recording(defaults);
+    return {
+      ...coder,
+      startThread: opts => {
+        cwd = opts?.workingDirectory ?? process.cwd();
+        return coder.startThread(opts);
+      },
+    };
+  };
+  registerAdapter(Object.assign(factory, { coderName }));
+}
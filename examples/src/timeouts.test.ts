@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { IdleTimeoutError, TimeoutError } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createAdapter as createGeminiAdapter, CODER_NAME as GEMINI_CODER_NAME } from '@headless-coder-sdk/gemini-adapter';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+// Stand-in for the Gemini CLI: runs one slow tool, then hangs when asked to "hang".
+const SLOW_GEMINI = `#!/usr/bin/env node
+if (process.argv.includes('--list-sessions')) process.exit(0);
+const emit = event => process.stdout.write(JSON.stringify(event) + '\\n');
+if (process.argv.includes('hang')) setInterval(() => {}, 1000);
+else (async () => {
+  emit({ type: 'init', session_id: 'slow-session', model: 'gemini-fake' });
+  emit({ type: 'tool_use', tool_name: 'run_shell_command', tool_id: 't1', parameters: { command: 'npm test' } });
+  await new Promise(resolve => setTimeout(resolve, 450));
+  emit({ type: 'tool_result', tool_id: 't1', status: 'success' });
+  emit({ type: 'result', stats: { input_tokens: 1, output_tokens: 1 } });
+})();
+`;
+
+async function collect(events: AsyncIterable<CoderStreamEvent>): Promise<CoderStreamEvent[]> {
+  const collected: CoderStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+test('timeoutMs and idleTimeoutMs abort runs with their own codes', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'timeouts-mock',
+      fixture: {
+        version: 1,
+        turns: [{ input: 'slow', delayMs: 500, result: {} }, { input: 'stalled', delayMs: 300 }],
+      },
+    }),
+  );
+  const thread = await createCoder('timeouts-mock').startThread();
+
+  await assert.rejects(thread.run('slow', { timeoutMs: 50 }), (error: unknown) => {
+    assert.ok(error instanceof TimeoutError);
+    assert.equal(error.code, 'timeout');
+    return true;
+  });
+
+  const events = await collect(thread.runStreamed('stalled', { idleTimeoutMs: 50 }));
+  assert.deepEqual(events.map(event => event.type), ['cancelled', 'error']);
+  assert.equal(events[1].type === 'error' && events[1].code, 'idle_timeout');
+});
+
+test('Gemini emits heartbeats during long tool calls and kills stalled CLIs', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-timeouts-'));
+  try {
+    const binary = path.join(dir, 'slow-gemini.cjs');
+    writeFileSync(binary, SLOW_GEMINI);
+    chmodSync(binary, 0o755);
+    registerAdapter(createGeminiAdapter);
+    const thread = await createCoder(GEMINI_CODER_NAME, {
+      workingDirectory: dir,
+      geminiBinaryPath: binary,
+    }).startThread();
+
+    const events = await collect(thread.runStreamed('run the tests', { heartbeatMs: 100 }));
+    const toolUse = events.findIndex(event => event.type === 'tool_use');
+    const toolResult = events.findIndex(event => event.type === 'tool_result');
+    const heartbeats = events
+      .map((event, index) => ({ event, index }))
+      .filter(({ event }) => event.type === 'progress' && event.label === 'heartbeat');
+    assert.ok(heartbeats.length >= 2, `expected heartbeats, got ${heartbeats.length}`);
+    assert.ok(heartbeats.every(({ index }) => index > toolUse && index < toolResult));
+    assert.equal(events.at(-1)?.type, 'done');
+
+    await assert.rejects(thread.run('hang', { idleTimeoutMs: 300 }), IdleTimeoutError);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
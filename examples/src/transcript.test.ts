@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import {
+  createJsonlTranscriptStore,
+  createMemoryTranscriptStore,
+  exportTranscript,
+  type TranscriptRecord,
+} from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+test('transcripts record inputs, events, results and failures per thread', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'transcript-audited',
+      fixture: {
+        version: 1,
+        threadId: 'audit-thread',
+        turns: [
+          { input: 'List the migrations', result: { text: '3 migrations', usage: { inputTokens: 8, outputTokens: 2 } } },
+          { input: 'Apply them', result: { text: 'Applied 3 migrations' } },
+          { input: 'Roll back', error: { message: 'database is locked' } },
+        ],
+      },
+    }),
+  );
+  const store = createMemoryTranscriptStore();
+  const coder = createCoder('transcript-audited', undefined, { transcripts: store });
+  const thread = await coder.startThread();
+
+  await thread.run('List the migrations');
+  for await (const _event of thread.runStreamed('Apply them')) {
+    // Drain the stream.
+  }
+  await assert.rejects(thread.run('Roll back'), /database is locked/);
+
+  assert.deepEqual(await store.threads(), ['audit-thread']);
+  const records = await store.read('audit-thread');
+  assert.deepEqual(
+    records.map(record => record.type),
+    ['input', 'result', 'input', 'event', 'event', 'event', 'input', 'error'],
+  );
+  assert.equal(new Set(records.map(record => record.runId)).size, 3);
+  const result = records.find(record => record.type === 'result') as Extract<TranscriptRecord, { type: 'result' }>;
+  assert.equal(result.result.text, '3 migrations');
+  assert.equal(result.result.raw, undefined);
+  const failure = records.at(-1) as Extract<TranscriptRecord, { type: 'error' }>;
+  assert.equal(failure.error.message, 'database is locked');
+
+  const markdown = exportTranscript(records, 'markdown');
+  assert.match(markdown, /^# Transcript audit-thread/);
+  assert.match(markdown, /## Run 1 \(run, .*\)\n\n\*\*Input\*\*\n\n> List the migrations/);
+  assert.match(markdown, /\*\*Reply\*\*\n\nApplied 3 migrations/);
+  assert.match(markdown, /\*\*Usage:\*\* 8 in \/ 2 out tokens/);
+  assert.match(markdown, /\*\*Failed:\*\* provider_failure: database is locked/);
+
+  const json = JSON.parse(exportTranscript(records, 'json'));
+  assert.equal(json.threadId, 'audit-thread');
+  assert.deepEqual(
+    json.runs.map((run: { mode: string; events: unknown[] }) => [run.mode, run.events.length]),
+    [
+      ['run', 0],
+      ['stream', 3],
+      ['run', 0],
+    ],
+  );
+});
+
+test('JSONL transcripts survive the process and export to HTML', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'transcript-jsonl',
+      fixture: { version: 1, turns: [{ threadId: 'jsonl/thread 1', result: { text: 'Use <Suspense> & lazy()' } }] },
+    }),
+  );
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-transcripts-'));
+  try {
+    const coder = createCoder('transcript-jsonl', undefined, { transcripts: createJsonlTranscriptStore(dir) });
+    const thread = await coder.startThread();
+    await thread.run('How do I split the bundle?');
+
+    const reopened = createJsonlTranscriptStore(dir);
+    assert.deepEqual(await reopened.threads(), ['jsonl/thread 1']);
+    assert.deepEqual(await reopened.read('missing'), []);
+    const html = exportTranscript(await reopened.read('jsonl/thread 1'), 'html');
+    assert.match(html, /<h1>Transcript jsonl\/thread 1<\/h1>/);
+    assert.match(html, /<pre>How do I split the bundle\?<\/pre>/);
+    assert.match(html, /Use &#60;Suspense&#62; &#38; lazy\(\)/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a failing transcript store does not change run outcomes', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'transcript-unstored',
+      fixture: { version: 1, threadId: 'unstored-thread', turns: [{ result: { text: 'ok' } }, { result: { text: 'ok' } }] },
+    }),
+  );
+  const failing = { ...createMemoryTranscriptStore(), append: async () => Promise.reject(new Error('disk full')) };
+  const failures: string[] = [];
+  const coder = createCoder('transcript-unstored', undefined, {
+    transcripts: failing,
+    onTranscriptError: (error, record) => failures.push(`${record.type}: ${(error as Error).message}`),
+  });
+  const thread = await coder.startThread();
+
+  assert.equal((await thread.run('first')).text, 'ok');
+  const events = [];
+  for await (const event of thread.runStreamed('second')) events.push(event);
+  assert.ok(events.some(event => event.type === 'done'));
+  assert.ok(!events.some(event => event.type === 'error'));
+  assert.deepEqual(failures.slice(0, 2), ['input: disk full', 'result: disk full']);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { estimateCost, finalizeUsage, mergeUsage, setPriceTable } from '@headless-coder-sdk/core';
+import type { CoderStreamEvent } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+
+test('estimateCost() prices cached input separately and matches model prefixes', () => {
+  setPriceTable({
+    'test-model': { inputPerMTok: 2, outputPerMTok: 10, cachedInputPerMTok: 0.5 },
+    'test-model-mini': { inputPerMTok: 1, outputPerMTok: 4 },
+  });
+  const usage = { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 100_000 };
+  assert.equal(estimateCost(usage, 'test-model-2025'), 1.2 + 0.2 + 1);
+  assert.equal(estimateCost(usage, 'test-model-mini-latest'), 1 + 0.4);
+  assert.equal(estimateCost(usage, 'unknown-model'), undefined);
+  setPriceTable({});
+});
+
+test('finalizeUsage() derives totals and only estimates when the provider reports no cost', () => {
+  setPriceTable({ priced: { inputPerMTok: 1, outputPerMTok: 1 } });
+  assert.deepEqual(finalizeUsage({ inputTokens: 500_000, outputTokens: 500_000, model: 'priced' }), {
+    inputTokens: 500_000,
+    outputTokens: 500_000,
+    totalTokens: 1_000_000,
+    costUsd: 1,
+    costSource: 'estimate',
+    model: 'priced',
+  });
+  const reported = finalizeUsage({ inputTokens: 10, costUsd: 0.5, model: 'priced', durationMs: undefined });
+  assert.equal(reported.costUsd, 0.5);
+  assert.equal(reported.costSource, 'provider');
+  assert.ok(!('durationMs' in reported));
+  setPriceTable({});
+});
+
+test('reasoning tokens are counted once, as part of outputTokens', () => {
+  setPriceTable({ thinker: { inputPerMTok: 1, outputPerMTok: 10, reasoningPerMTok: 20 } });
+  const stats = finalizeUsage({ inputTokens: 100_000, outputTokens: 50_000, reasoningTokens: 40_000, model: 'thinker' });
+  assert.equal(stats.totalTokens, 150_000);
+  assert.equal(stats.costUsd, 0.1 + 0.1 + 0.8);
+  setPriceTable({});
+});
+
+test('mergeUsage() sums counters across turns', () => {
+  const merged = mergeUsage(
+    { inputTokens: 10, outputTokens: 2, toolCalls: 1, model: 'm' },
+    { inputTokens: 5, outputTokens: 3, model: 'm' },
+  );
+  assert.deepEqual(merged, { inputTokens: 15, outputTokens: 5, toolCalls: 1, totalTokens: 20, model: 'm' });
+});
+
+test('usage events carry normalized stats alongside the raw provider payload', async () => {
+  const raw = { input_tokens: 12, cached_input_tokens: 4, output_tokens: 3 };
+  const stats = finalizeUsage({ inputTokens: 12, cachedInputTokens: 4, outputTokens: 3 });
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'usage-replay',
+      fixture: {
+        version: 1,
+        turns: [
+          {
+            events: [
+              { type: 'message', provider: 'codex', role: 'assistant', text: 'ok', ts: 0 },
+              { type: 'usage', provider: 'codex', stats, rawStats: raw, ts: 0 },
+              { type: 'done', provider: 'codex', ts: 0 },
+            ],
+          },
+          { result: { text: 'ok', usage: stats, rawUsage: raw } },
+        ],
+      },
+    }),
+  );
+  const thread = await createCoder('usage-replay').startThread();
+  const result = await thread.run('first');
+  assert.equal(result.usage?.totalTokens, 15);
+  assert.deepEqual(result.rawUsage, raw);
+
+  const events: CoderStreamEvent[] = [];
+  for await (const event of thread.runStreamed('second')) events.push(event);
+  const usage = events.find(event => event.type === 'usage');
+  assert.ok(usage && usage.type === 'usage');
+  assert.equal(usage.stats?.cachedInputTokens, 4);
+  assert.deepEqual(usage.rawStats, raw);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { registerAdapter } from '@headless-coder-sdk/core/factory';
+import { EXIT_USAGE, evaluateCondition, main } from '@headless-coder-sdk/cli';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { capture } from './test-helpers.js';
+
+test('workflow conditions read structured outputs', () => {
+  const context = { steps: { review: { json: { approved: false, score: 3, tags: [] } } }, vars: { mode: 'fast' } };
+  assert.equal(evaluateCondition('steps.review.json.approved == false', context), true);
+  assert.equal(evaluateCondition('!steps.review.json.approved && vars.mode == "fast"', context), true);
+  assert.equal(evaluateCondition("steps.review.json.score != 3 || (vars.mode == 'slow')", context), false);
+  assert.equal(evaluateCondition('steps.review.json.tags', context), false);
+  assert.throws(() => evaluateCondition('steps.review ==', context), /unexpected end/);
+});
+
+test('headless-coder run executes a workflow file and logs NDJSON', async () => {
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'workflow-author',
+      fixture: {
+        version: 1,
+        turns: [{ result: { text: 'Draft one' } }, { result: { text: 'Draft two' } }],
+      },
+    }),
+  );
+  registerAdapter(
+    createMockAdapter({
+      coderName: 'workflow-critic',
+      provider: 'claude',
+      fixture: {
+        version: 1,
+        turns: [{ result: { text: '{"approved": false}' } }, { result: { text: '{"approved": true}' } }],
+      },
+    }),
+  );
+
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-workflow-'));
+  try {
+    writeFileSync(
+      path.join(dir, 'verdict.schema.json'),
+      JSON.stringify({ type: 'object', properties: { approved: { type: 'boolean' } }, required: ['approved'] }),
+    );
+    const workflowPath = path.join(dir, 'release-notes.json');
+    writeFileSync(
+      workflowPath,
+      JSON.stringify({
+        version: 1,
+        name: 'release-notes',
+        vars: { version: '0.0.0' },
+        steps: [
+          {
+            name: 'draft-loop',
+            loop: {
+              until: 'steps.critique.json.approved == true',
+              maxIterations: 3,
+              steps: [
+                { name: 'draft', provider: 'workflow-author', prompt: 'Release notes for {{vars.version}}' },
+                {
+                  name: 'critique',
+                  provider: 'workflow-critic',
+                  prompt: 'Critique: {{steps.draft.text}}',
+                  outputSchema: 'verdict.schema.json',
+                },
+              ],
+            },
+          },
+          { name: 'publish', provider: 'workflow-author', prompt: 'never', when: 'vars.publish' },
+        ],
+      }),
+    );
+
+    const cli = capture();
+    const code = await main(['run', workflowPath, '--var', 'version=1.2.0'], cli.io);
+    assert.equal(code, 0, cli.stderr());
+    const events = cli
+      .stdout()
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    const starts = events.filter(event => event.type === 'step_start');
+    assert.deepEqual(
+      starts.map(event => [event.step, event.prompt]),
+      [
+        ['draft', 'Release notes for 1.2.0'],
+        ['critique', 'Critique: Draft one'],
+        ['draft', 'Release notes for 1.2.0'],
+        ['critique', 'Critique: Draft two'],
+      ],
+    );
+    assert.ok(events.some(event => event.type === 'step_skipped' && event.step === 'publish'));
+    assert.deepEqual(events.at(-1), {
+      type: 'workflow_end',
+      workflow: 'release-notes',
+      status: 'succeeded',
+      loops: { 'draft-loop': { iterations: 2, completed: true } },
+      ts: events.at(-1).ts,
+    });
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('invalid workflow files are rejected with the schema errors', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-workflow-'));
+  try {
+    const workflowPath = path.join(dir, 'broken.json');
+    writeFileSync(workflowPath, JSON.stringify({ steps: [{ name: 'plan', provider: 'codex' }] }));
+    const cli = capture();
+    assert.equal(await main(['run', workflowPath], cli.io), EXIT_USAGE);
+    assert.match(cli.stderr(), /Invalid workflow .*prompt/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('an unwritable --log path is a usage error', async () => {
+  registerAdapter(
+    createMockAdapter({ coderName: 'workflow-logged', fixture: { version: 1, turns: [{ result: { text: 'ok' } }] } }),
+  );
+  const dir = mkdtempSync(path.join(tmpdir(), 'headless-coder-workflow-'));
+  try {
+    const workflowPath = path.join(dir, 'single.json');
+    writeFileSync(
+      workflowPath,
+      JSON.stringify({ version: 1, steps: [{ name: 'only', provider: 'workflow-logged', prompt: 'hi' }] }),
+    );
+    const cli = capture();
+    const log = path.join(dir, 'missing', 'run.ndjson');
+    assert.equal(await main(['run', workflowPath, '--log', log], cli.io), EXIT_USAGE);
+    assert.match(cli.stderr(), /Cannot open log file/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
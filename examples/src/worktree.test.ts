@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { createCoder, registerAdapter } from '@headless-coder-sdk/core/factory';
+import { MergeConflictError } from '@headless-coder-sdk/core';
+import type { StartOpts } from '@headless-coder-sdk/core';
+import { createMockAdapter } from '@headless-coder-sdk/mock-adapter';
+import { registerEditingAdapter, withWorkspace } from './test-helpers.js';
+
+const editApp = (cwd: string) => writeFileSync(path.join(cwd, 'app.txt'), 'edited\n');
+
+function withRepository(body: (dir: string, worktrees: string) => Promise<void>) {
+  return withWorkspace(
+    root => {
+      const dir = path.join(root, 'repo');
+      const git = (...args: string[]) => execFileSync('git', args, { cwd: root, stdio: 'ignore' });
+      git('init', '-q', dir);
+      writeFileSync(path.join(dir, 'app.txt'), 'original\n');
+      git('-C', dir, 'add', 'app.txt');
+      git('-C', dir, '-c', 'user.email=t@example.com', '-c', 'user.name=t', 'commit', '-q', '-m', 'init');
+    },
+    root => body(path.join(root, 'repo'), path.join(root, 'worktrees')),
+  );
+}
+
+test(
+  'worktree threads edit an isolated checkout and merge back on request',
+  withRepository(async (dir, worktrees) => {
+    registerEditingAdapter('worktree-merge', editApp);
+    const coder = createCoder('worktree-merge', { workingDirectory: dir });
+    const thread = await coder.startThread({ isolation: { directory: worktrees, branch: 'agent/feature' } });
+
+    assert.equal(thread.worktree!.branch, 'agent/feature');
+    assert.equal(path.dirname(thread.worktree!.path), worktrees);
+    await thread.run('edit the app');
+    assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'original\n');
+    assert.match(await thread.diff!(), /-original\n\+edited/);
+    const status = execFileSync('git', ['status', '--porcelain'], { cwd: thread.worktree!.path, encoding: 'utf8' });
+    assert.equal(status, ' M app.txt\n');
+
+    const merged = await thread.merge!({ message: 'agent edits' });
+    assert.equal(merged.branch, 'agent/feature');
+    assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'edited\n');
+    const head = execFileSync('git', ['rev-parse', 'HEAD'], { cwd: dir, encoding: 'utf8' }).trim();
+    assert.equal(merged.commit, head);
+
+    await coder.close!(thread);
+    assert.ok(!existsSync(thread.worktree!.path));
+  }),
+);
+
+test(
+  'discard() drops the worktree and its branch',
+  withRepository(async (dir, worktrees) => {
+    registerEditingAdapter('worktree-discard', editApp);
+    const thread = await createCoder('worktree-discard', {
+      workingDirectory: dir,
+      isolation: { directory: worktrees },
+    }).startThread();
+
+    await thread.run('edit the app');
+    await thread.discard!();
+    assert.ok(!existsSync(thread.worktree!.path));
+    const branches = execFileSync('git', ['branch', '--list', thread.worktree!.branch], { cwd: dir, encoding: 'utf8' });
+    assert.equal(branches, '');
+    assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'original\n');
+    await assert.rejects(thread.run('again'), /was discarded/);
+  }),
+);
+
+test(
+  'conflicting merges are aborted and reported with the conflicted paths',
+  withRepository(async (dir, worktrees) => {
+    registerEditingAdapter('worktree-conflict', editApp);
+    const thread = await createCoder('worktree-conflict', {
+      workingDirectory: dir,
+      isolation: { directory: worktrees },
+    }).startThread();
+    await thread.run('edit the app');
+
+    writeFileSync(path.join(dir, 'app.txt'), 'changed upstream\n');
+    await assert.rejects(thread.merge!(), /uncommitted changes/);
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, encoding: 'utf8' });
+    git('-c', 'user.email=t@example.com', '-c', 'user.name=t', 'commit', '-q', '-am', 'upstream');
+
+    await assert.rejects(thread.merge!(), (error: unknown) => {
+      assert.ok(error instanceof MergeConflictError);
+      assert.equal(error.code, 'merge_conflict');
+      assert.deepEqual(error.conflicts, ['app.txt']);
+      return true;
+    });
+    assert.equal(git('status', '--porcelain'), '');
+    assert.equal(readFileSync(path.join(dir, 'app.txt'), 'utf8'), 'changed upstream\n');
+  }),
+);
+
+test(
+  'a thread that fails to start removes the worktree prepared for it',
+  withRepository(async (dir, worktrees) => {
+    const failing = Object.assign(
+      (defaults?: StartOpts) => ({
+        ...createMockAdapter({ fixture: { version: 1, turns: [] } })(defaults),
+        startThread: async () => Promise.reject(new Error('cannot start')),
+      }),
+      { coderName: 'worktree-start-failure' },
+    );
+    registerAdapter(failing);
+    const coder = createCoder('worktree-start-failure', { workingDirectory: dir });
+
+    await assert.rejects(
+      coder.startThread({ isolation: { directory: worktrees, branch: 'agent/doomed' } }),
+      /cannot start/,
+    );
+    assert.deepEqual(readdirSync(worktrees), []);
+    const branches = execFileSync('git', ['branch', '--list', 'agent/doomed'], { cwd: dir, encoding: 'utf8' });
+    assert.equal(branches, '');
+  }),
+);
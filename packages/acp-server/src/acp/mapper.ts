@@ -49,7 +49,16 @@ export function mapEventToFrames(event: UnknownEvent): AcpStreamFrame[] {
     case 'permission':
       return [frame({ type: 'permission', decision: event.decision, request: event.request, provider: event.provider, ts: event.ts })];
     case 'file_change':
-      return [frame({ type: 'file_change', path: event.path, op: event.op, provider: event.provider, ts: event.ts })];
+      return [
+        frame({
+          type: 'file_change',
+          path: event.path,
+          op: event.op,
+          patch: event.patch,
+          provider: event.provider,
+          ts: event.ts,
+        }),
+      ];
     case 'plan_update':
       return [frame({ type: 'plan_update', text: event.text, provider: event.provider, ts: event.ts })];
     case 'error':
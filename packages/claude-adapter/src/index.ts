@@ -15,9 +15,21 @@ import {
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  finalizeUsage,
+  toFiniteNumber,
+  BusyError,
+  InterruptedError,
+  classifyError,
+  createHeadlessCoderError,
+  toHeadlessCoderError,
+  createRunDeadline,
+  withHeartbeat,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  HeadlessCoderError,
+  HeadlessCoderErrorCode,
+  RunDeadline,
   HeadlessCoder,
   ThreadHandle,
   PromptInput,
@@ -27,6 +39,7 @@ import type {
   CoderStreamEvent,
   EventIterator,
   Provider,
+  UsageStats,
 } from '@headless-coder-sdk/core';
 
 export const CODER_NAME: Provider = 'claude';
@@ -57,6 +70,7 @@ interface ActiveClaudeRun {
   generator: ClaudeQuery;
   abortController: AbortController;
   stopExternal: () => void;
+  deadline: RunDeadline;
   aborted: boolean;
   abortReason?: string;
 }
@@ -210,11 +224,13 @@ export class ClaudeAdapter implements HeadlessCoder {
     const prompt = toPrompt(input);
     const options = this.buildOptions(state, runOpts, useNativeStructuredOutput);
     const generator = query({ prompt, options });
-    const active = this.registerRun(state, generator, runOpts?.signal);
+    const active = this.registerRun(state, generator, runOpts);
     let lastAssistant = '';
     let finalResult: any;
+    let toolCalls = 0;
     try {
       for await (const message of generator as AsyncGenerator<SDKMessage, void, void>) {
+        active.deadline.touch();
         this.captureSessionId(state, thread, message);
         if (active.abortController.signal.aborted) {
           throw createAbortError(active.abortReason);
@@ -227,29 +243,35 @@ export class ClaudeAdapter implements HeadlessCoder {
         }
         if (type.includes('assistant')) {
           lastAssistant = extractClaudeAssistantText(message);
+          toolCalls += countClaudeToolUses(message);
         }
       }
     } catch (error) {
       if (isAbortError(error)) {
-        throw error;
+        throw active.deadline.expired ?? error;
       }
       if (finalResult && claudeResultIndicatesError(finalResult)) {
-        throw new Error(buildClaudeResultErrorMessage(finalResult), {
-          cause: error instanceof Error ? error : undefined,
-        });
+        throw createClaudeResultError(finalResult, error);
       }
-      throw error;
+      throw toHeadlessCoderError(error, CODER_NAME);
     } finally {
       this.cleanupRun(state, active);
     }
     if (active.abortController.signal.aborted) {
-      throw createAbortError(active.abortReason);
+      throw active.deadline.expired ?? createAbortError(active.abortReason);
     }
     if (finalResult && claudeResultIndicatesError(finalResult)) {
-      throw new Error(buildClaudeResultErrorMessage(finalResult));
+      throw createClaudeResultError(finalResult);
     }
     const structured = runOpts?.outputSchema ? extractNativeStructuredOutput(finalResult) : undefined;
-    return { threadId: state.sessionId, text: lastAssistant, raw: finalResult, json: structured };
+    return {
+      threadId: state.sessionId,
+      text: lastAssistant,
+      raw: finalResult,
+      json: structured,
+      usage: normalizeClaudeUsage(finalResult, toolCalls, state.opts.model),
+      rawUsage: finalResult?.usage,
+    };
   }
 
   /**
@@ -280,17 +302,19 @@ export class ClaudeAdapter implements HeadlessCoder {
     const generator = query({ prompt, options });
     const adapter = this;
 
-    return {
+    const iterator: EventIterator = {
       async *[Symbol.asyncIterator]() {
-        const active = adapter.registerRun(state, generator, runOpts?.signal);
+        const active = adapter.registerRun(state, generator, runOpts);
+        const turn: ClaudeTurnTracker = { toolCalls: 0, model: state.opts.model };
         let sawDone = false;
         try {
           for await (const message of generator as AsyncGenerator<SDKMessage, void, void>) {
+            active.deadline.touch();
             adapter.captureSessionId(state, thread, message);
             if (active.abortController.signal.aborted) {
               throw createAbortError(active.abortReason);
             }
-            const events = normalizeClaudeStreamMessage(message, state.sessionId);
+            const events = normalizeClaudeStreamMessage(message, state.sessionId, turn);
             for (const event of events) {
               if (event.type === 'error') {
                 yield event;
@@ -317,19 +341,24 @@ export class ClaudeAdapter implements HeadlessCoder {
             yield {
               type: 'error',
               provider: CODER_NAME,
-              code: 'interrupted',
+              code: active.deadline.expired?.code ?? 'interrupted',
               message: reason,
               ts: now(),
               originalItem: { reason },
             };
             return;
           }
-          throw error;
+          throw toHeadlessCoderError(error, CODER_NAME);
         } finally {
           adapter.cleanupRun(state, active);
         }
       },
     };
+    return withHeartbeat(iterator, {
+      provider: CODER_NAME,
+      intervalMs: runOpts?.heartbeatMs,
+      onAbandon: () => adapter.abortCurrentRun(state, 'Stream closed'),
+    });
   }
 
   /**
@@ -360,13 +389,14 @@ export class ClaudeAdapter implements HeadlessCoder {
     return handle;
   }
 
-  private registerRun(state: ClaudeThreadState, generator: ClaudeQuery, signal?: AbortSignal): ActiveClaudeRun {
+  private registerRun(state: ClaudeThreadState, generator: ClaudeQuery, runOpts?: RunOpts): ActiveClaudeRun {
     const abortController = new AbortController();
-    const stopExternal = linkSignal(signal, reason => this.abortCurrentRun(state, reason));
+    const stopExternal = linkSignal(runOpts?.signal, reason => this.abortCurrentRun(state, reason));
     const active: ActiveClaudeRun = {
       generator,
       abortController,
       stopExternal,
+      deadline: createRunDeadline(runOpts, error => this.abortCurrentRun(state, error.message), CODER_NAME),
       aborted: false,
     };
     state.currentRun = active;
@@ -375,6 +405,7 @@ export class ClaudeAdapter implements HeadlessCoder {
 
   private cleanupRun(state: ClaudeThreadState, active: ActiveClaudeRun): void {
     active.stopExternal();
+    active.deadline.dispose();
     if (state.currentRun === active) {
       state.currentRun = null;
     }
@@ -395,7 +426,7 @@ export class ClaudeAdapter implements HeadlessCoder {
 
   private assertIdle(state: ClaudeThreadState): void {
     if (state.currentRun) {
-      throw new Error('Claude adapter only supports one in-flight run per thread.');
+      throw new BusyError('Claude adapter only supports one in-flight run per thread.', { provider: CODER_NAME });
     }
   }
 
@@ -409,7 +440,17 @@ export class ClaudeAdapter implements HeadlessCoder {
   }
 }
 
-function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStreamEvent[] {
+/** Tool calls seen so far in a streamed turn; Claude only reports tokens, cost and duration on the result. */
+interface ClaudeTurnTracker {
+  toolCalls: number;
+  model?: string;
+}
+
+function normalizeClaudeStreamMessage(
+  message: any,
+  threadId: string | undefined,
+  turn: ClaudeTurnTracker,
+): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const events: CoderStreamEvent[] = [];
@@ -446,6 +487,7 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
   }
 
   if (includes('assistant')) {
+    turn.toolCalls += countClaudeToolUses(message);
     return [
       {
         type: 'message',
@@ -505,6 +547,7 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
         {
           type: 'error',
           provider,
+          code: claudeResultErrorCode(message),
           message: buildClaudeResultErrorMessage(message),
           ts,
           originalItem: message,
@@ -512,7 +555,14 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
       ];
     }
     if (message?.usage) {
-      events.push({ type: 'usage', provider, stats: message.usage, ts, originalItem: message });
+      events.push({
+        type: 'usage',
+        provider,
+        stats: normalizeClaudeUsage(message, turn.toolCalls, turn.model),
+        rawStats: message.usage,
+        ts,
+        originalItem: message,
+      });
     }
     events.push({ type: 'done', provider, ts, originalItem: message });
     return events;
@@ -520,7 +570,14 @@ function normalizeClaudeStreamMessage(message: any, threadId?: string): CoderStr
 
   if (includes('completed') || includes('final')) {
     if (message?.usage) {
-      events.push({ type: 'usage', provider, stats: message.usage, ts, originalItem: message });
+      events.push({
+        type: 'usage',
+        provider,
+        stats: normalizeClaudeUsage(message, turn.toolCalls, turn.model),
+        rawStats: message.usage,
+        ts,
+        originalItem: message,
+      });
     }
     events.push({ type: 'done', provider, ts, originalItem: message });
     return events;
@@ -545,10 +602,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function isAbortError(error: unknown): boolean {
@@ -561,6 +615,39 @@ function reasonToString(reason: unknown): string | undefined {
   return undefined;
 }
 
+function countClaudeToolUses(message: any): number {
+  const content = message?.message?.content ?? message?.content;
+  if (!Array.isArray(content)) return 0;
+  return content.filter(block => block?.type === 'tool_use').length;
+}
+
+/**
+ * Maps a Claude result message onto UsageStats. Claude reports cache reads separately from `input_tokens`,
+ * so they are folded back in to keep `inputTokens` comparable across providers.
+ */
+function normalizeClaudeUsage(result: any, toolCalls: number, model?: string): UsageStats | undefined {
+  const usage = result?.usage;
+  if (!usage) return undefined;
+  const input = toFiniteNumber(usage.input_tokens);
+  const cacheRead = toFiniteNumber(usage.cache_read_input_tokens);
+  const cacheWrite = toFiniteNumber(usage.cache_creation_input_tokens);
+  const inputTokens =
+    input === undefined && cacheRead === undefined && cacheWrite === undefined
+      ? undefined
+      : (input ?? 0) + (cacheRead ?? 0) + (cacheWrite ?? 0);
+  const modelUsage = result?.modelUsage ?? result?.model_usage;
+  const reportedModel = modelUsage && typeof modelUsage === 'object' ? Object.keys(modelUsage)[0] : undefined;
+  return finalizeUsage({
+    inputTokens,
+    outputTokens: toFiniteNumber(usage.output_tokens),
+    cachedInputTokens: cacheRead,
+    toolCalls,
+    durationMs: toFiniteNumber(result.duration_ms),
+    costUsd: toFiniteNumber(result.total_cost_usd),
+    model: reportedModel ?? model,
+  });
+}
+
 function extractClaudeAssistantText(message: any): string {
   if (!message) return '';
 
@@ -600,3 +687,17 @@ function buildClaudeResultErrorMessage(result: any): string {
     'Claude run failed';
   return `Claude run failed: ${summary}`;
 }
+
+/**
+ * Maps a failed result onto the error taxonomy: structured-output exhaustion is a schema violation, other
+ * subtypes (max turns, execution errors) are classified from the message.
+ */
+function claudeResultErrorCode(result: any): HeadlessCoderErrorCode {
+  if (String(result?.subtype ?? '').includes('structured_output')) return 'schema_violation';
+  return classifyError(buildClaudeResultErrorMessage(result));
+}
+
+function createClaudeResultError(result: any, cause?: unknown): HeadlessCoderError {
+  const message = buildClaudeResultErrorMessage(result);
+  return createHeadlessCoderError(claudeResultErrorCode(result), message, { provider: CODER_NAME, cause });
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Lazily registers the built-in adapters a command needs.
+ */
+
+import { getAdapterFactory, registerAdapter } from '@headless-coder-sdk/core';
+import type { AdapterFactory, AdapterName } from '@headless-coder-sdk/core';
+
+/**
+ * Built-in adapters, imported on demand so a workflow that only uses Gemini does not load the Codex or Claude SDKs.
+ */
+export const BUILTIN_ADAPTERS: Record<string, () => Promise<AdapterFactory>> = {
+  codex: async () => (await import('@headless-coder-sdk/codex-adapter')).createAdapter,
+  claude: async () => (await import('@headless-coder-sdk/claude-adapter')).createAdapter,
+  gemini: async () => (await import('@headless-coder-sdk/gemini-adapter')).createAdapter,
+};
+
+/**
+ * Registers each named adapter that is not registered yet. Adapters registered by the host program win.
+ *
+ * @throws When a name is neither registered nor built in, or its adapter fails to load.
+ */
+export async function ensureAdapters(names: Iterable<AdapterName>): Promise<void> {
+  for (const name of new Set(names)) {
+    if (getAdapterFactory(name)) continue;
+    const load = BUILTIN_ADAPTERS[name];
+    if (!load) {
+      const known = Object.keys(BUILTIN_ADAPTERS).join(', ');
+      throw new Error(`Unknown adapter "${name}". Built-in adapters: ${known}.`);
+    }
+    try {
+      registerAdapter(await load());
+    } catch (error) {
+      throw new Error(`Cannot load the ${name} adapter: ${(error as Error).message}`, { cause: error });
+    }
+  }
+}
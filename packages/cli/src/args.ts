@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Argument parsing and exit codes shared by the subcommands.
+ */
+
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ParseArgsConfig } from 'node:util';
+import type { StartOpts } from '@headless-coder-sdk/core';
+
+/**
+ * Streams the CLI reads from and writes to; injectable for tests.
+ */
+export interface CliIO {
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  /** Read for the prompt when none is given on the command line. */
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+}
+
+/** Exit code for a run that failed. */
+export const EXIT_FAILURE = 1;
+/** Exit code for invalid arguments or an invalid workflow file. */
+export const EXIT_USAGE = 2;
+
+const SANDBOX_MODES = ['read-only', 'workspace-write', 'danger-full-access'] as const;
+
+/**
+ * Options shared by the commands that open a thread.
+ */
+export const THREAD_OPTIONS = {
+  provider: { type: 'string', short: 'p' },
+  cwd: { type: 'string' },
+  model: { type: 'string' },
+  sandbox: { type: 'string' },
+} as const;
+
+/** Invalid command-line arguments. */
+export class UsageError extends Error {}
+
+type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+
+/**
+ * Values and positionals parseCommandArgs() returns for a set of options.
+ */
+export type ParsedCommandArgs<T extends CommandOptions> = ReturnType<
+  typeof parseArgs<{ args: string[]; options: T; allowPositionals: true; strict: true }>
+>;
+
+/**
+ * Parses subcommand arguments, reporting parser failures as UsageErrors.
+ */
+export function parseCommandArgs<T extends CommandOptions>(args: string[], options: T): ParsedCommandArgs<T> {
+  try {
+    return parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Converts the parsed `THREAD_OPTIONS` into `StartOpts`.
+ */
+export function toStartOpts(values: { cwd?: string; model?: string; sandbox?: string }): StartOpts {
+  const sandboxMode = values.sandbox as StartOpts['sandboxMode'];
+  if (sandboxMode && !SANDBOX_MODES.includes(sandboxMode)) {
+    throw new UsageError(`--sandbox must be one of ${SANDBOX_MODES.join(', ')}.`);
+  }
+  return { workingDirectory: values.cwd && path.resolve(values.cwd), model: values.model, sandboxMode };
+}
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview `headless-coder` command dispatcher.
+ */
+
+import { once } from 'node:events';
+import { open } from 'node:fs/promises';
+import { createPipeline, mergeUsage } from '@headless-coder-sdk/core';
+import type { AdapterName, UsageStats } from '@headless-coder-sdk/core';
+import { ensureAdapters } from './adapters.js';
+import { EXIT_FAILURE, EXIT_USAGE, parseCommandArgs, UsageError } from './args.js';
+import type { CliIO } from './args.js';
+import { runAgentsCommand, runPromptCommand } from './prompt.js';
+import { toNdjson } from './render.js';
+import { runChatCommand } from './repl.js';
+import { loadWorkflow, toPipelineDefinition, WorkflowError } from './workflow.js';
+import type { WorkflowNode } from './workflow.js';
+
+export { EXIT_FAILURE, EXIT_USAGE };
+export type { CliIO };
+
+const USAGE = `Usage: headless-coder <command> [options]
+
+Commands:
+  agents [--json]                           List the adapters and whether they can be loaded
+  run --provider <name> [prompt]            Run one prompt (read from stdin when omitted)
+  resume <threadId> --provider <name> [prompt]
+                                            Continue an existing thread with another prompt
+  chat --provider <name> [--resume <id>]    Start an interactive session (type /help inside it)
+  run <workflow.yaml|json>                  Run a workflow file and write its events as NDJSON
+
+Prompt and chat options:
+  -p, --provider <name>      Adapter to use (codex, claude, gemini or a registered adapter)
+  --cwd <dir>                Working directory for the agent
+  --model <name>             Model override
+  --sandbox <mode>           read-only, workspace-write or danger-full-access
+  --schema <file.json>       Request structured output matching a JSON Schema
+  --stream                   Print events as they arrive
+  --format <pretty|json>     Human-readable output (default) or JSON (NDJSON events when streaming)
+
+Workflow options:
+  --input <text>             Pipeline input, available to prompts as {{input}}
+  --var <name=value>         Set a workflow variable (repeatable; values are parsed as JSON when possible)
+  --log <file>               Write the NDJSON event log to a file instead of stdout
+`;
+
+/**
+ * Runs the CLI with `argv` (without the node and script entries) and resolves with the process exit code.
+ */
+export async function main(argv: string[], io: CliIO = process): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    switch (command) {
+      case 'agents':
+        return await runAgentsCommand(rest, io);
+      case 'run':
+        return rest.some(isProviderFlag)
+          ? await runPromptCommand(rest, io, 'run')
+          : await runWorkflowCommand(rest, io);
+      case 'resume':
+        return await runPromptCommand(rest, io, 'resume');
+      case 'chat':
+        return await runChatCommand(rest, io);
+      case undefined:
+      case 'help':
+      case '--help':
+      case '-h':
+        io.stdout.write(USAGE);
+        return command === undefined ? EXIT_USAGE : 0;
+      default:
+        io.stderr.write(`Unknown command "${command}".\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+  } catch (error) {
+    io.stderr.write(`headless-coder: ${(error as Error).message}\n`);
+    return error instanceof WorkflowError || error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+}
+
+async function runWorkflowCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, {
+    input: { type: 'string' },
+    var: { type: 'string', multiple: true },
+    log: { type: 'string' },
+  });
+  if (positionals.length !== 1) throw new UsageError('run expects exactly one workflow file.');
+
+  const workflow = await loadWorkflow(positionals[0]);
+  await ensureAdapters(collectProviders(workflow.steps));
+  const pipeline = createPipeline(await toPipelineDefinition(workflow, parseVars(values.var)));
+
+  let logError: Error | undefined;
+  const log = values.log ? await openLog(values.log, error => (logError ??= error)) : io.stdout;
+  const writeLog = async (record: object) => {
+    if (logError) throw logError;
+    if (!log.write(`${toNdjson(record)}\n`)) await once(log, 'drain');
+  };
+  const controller = new AbortController();
+  const onSigint = () => controller.abort('Interrupted by SIGINT');
+  process.once('SIGINT', onSigint);
+
+  const loops: Record<string, { iterations: number; completed: boolean }> = {};
+  let usage: UsageStats | undefined;
+  let failure: Error | undefined;
+  try {
+    for await (const event of pipeline.runStreamed(values.input ?? workflow.input, { signal: controller.signal })) {
+      await writeLog(event);
+      if (event.type === 'step_result') {
+        usage = mergeUsage(usage, event.result.usage);
+        if (values.log) io.stdout.write(`✔ ${event.step} (${event.provider}, run ${event.iteration})\n`);
+      } else if (event.type === 'loop_end') {
+        loops[event.step] = { iterations: event.iterations, completed: event.completed };
+      }
+    }
+  } catch (error) {
+    failure = error as Error;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+  }
+
+  const error = failure && { message: failure.message, step: (failure as any).step, code: (failure as any).code };
+  const summary = {
+    type: 'workflow_end',
+    workflow: workflow.name,
+    status: failure ? 'failed' : 'succeeded',
+    error,
+    loops,
+    usage,
+    ts: Date.now(),
+  };
+  await writeLog(summary).catch(error => (failure ??= error));
+  if (log !== io.stdout) await new Promise<void>(resolve => log.end(resolve));
+  if (failure) {
+    io.stderr.write(`headless-coder: ${failure.message}\n`);
+    return EXIT_FAILURE;
+  }
+  return 0;
+}
+
+function isProviderFlag(arg: string): boolean {
+  return arg === '-p' || arg === '--provider' || arg.startsWith('--provider=');
+}
+
+function parseVars(entries: string[] | undefined): Record<string, unknown> {
+  const vars: Record<string, unknown> = {};
+  for (const entry of entries ?? []) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) throw new UsageError(`--var expects name=value, got "${entry}".`);
+    const raw = entry.slice(separator + 1);
+    let value: unknown = raw;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Plain strings do not need quoting on the command line.
+    }
+    vars[entry.slice(0, separator)] = value;
+  }
+  return vars;
+}
+
+/** Opens the --log file before the workflow starts, so a bad path is a usage error rather than a crash mid-run. */
+async function openLog(file: string, onError: (error: Error) => void): Promise<NodeJS.WritableStream> {
+  try {
+    const handle = await open(file, 'w');
+    return handle.createWriteStream().on('error', onError);
+  } catch (error) {
+    throw new UsageError(`Cannot open log file ${file}: ${(error as Error).message}`);
+  }
+}
+
+function collectProviders(nodes: WorkflowNode[]): AdapterName[] {
+  return nodes.flatMap(node => ('loop' in node ? collectProviders(node.loop.steps) : [node.provider]));
+}
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Entry point for the headless-coder CLI package.
+ */
+
+export { main, EXIT_FAILURE, EXIT_USAGE } from './cli.js';
+export type { CliIO } from './cli.js';
+export { listAgents } from './prompt.js';
+export type { AgentInfo } from './prompt.js';
+export { createReplSession } from './repl.js';
+export type { ReplOptions, ReplSession } from './repl.js';
+export { createEventRenderer, formatUsage, toNdjson } from './render.js';
+export type { EventRenderer } from './render.js';
+export { ensureAdapters, BUILTIN_ADAPTERS } from './adapters.js';
+export {
+  loadWorkflow,
+  parseWorkflow,
+  toPipelineDefinition,
+  evaluateCondition,
+  getWorkflowSchema,
+  WorkflowError,
+} from './workflow.js';
+export type { Workflow, WorkflowNode, WorkflowStep, WorkflowLoop } from './workflow.js';
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview One-shot prompt commands: `agents`, `run --provider` and `resume`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createCoder, getRegisteredAdapters, runStructured } from '@headless-coder-sdk/core';
+import type { RunOpts, RunResult, ThreadHandle } from '@headless-coder-sdk/core';
+import { BUILTIN_ADAPTERS, ensureAdapters } from './adapters.js';
+import { EXIT_FAILURE, parseCommandArgs, THREAD_OPTIONS, toStartOpts, UsageError } from './args.js';
+import type { CliIO } from './args.js';
+import { createEventRenderer, toNdjson } from './render.js';
+
+const PROMPT_OPTIONS = {
+  ...THREAD_OPTIONS,
+  schema: { type: 'string' },
+  stream: { type: 'boolean' },
+  format: { type: 'string' },
+} as const;
+
+/**
+ * Status of one adapter as reported by `headless-coder agents`.
+ */
+export interface AgentInfo {
+  name: string;
+  builtin: boolean;
+  available: boolean;
+  /** Why a built-in adapter could not be loaded. */
+  error?: string;
+}
+
+/**
+ * Loads the built-in adapters that are not registered yet and reports every adapter the CLI can use.
+ */
+export async function listAgents(): Promise<AgentInfo[]> {
+  const agents: AgentInfo[] = [];
+  for (const name of Object.keys(BUILTIN_ADAPTERS)) {
+    try {
+      await ensureAdapters([name]);
+      agents.push({ name, builtin: true, available: true });
+    } catch (error) {
+      agents.push({ name, builtin: true, available: false, error: (error as Error).message });
+    }
+  }
+  for (const name of getRegisteredAdapters()) {
+    if (!(name in BUILTIN_ADAPTERS)) agents.push({ name, builtin: false, available: true });
+  }
+  return agents;
+}
+
+/**
+ * `headless-coder agents [--json]`.
+ */
+export async function runAgentsCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, { json: { type: 'boolean' } });
+  if (positionals.length) throw new UsageError('agents does not take arguments.');
+  const agents = await listAgents();
+  if (values.json) {
+    io.stdout.write(`${toNdjson(agents)}\n`);
+    return 0;
+  }
+  const width = Math.max(...agents.map(agent => agent.name.length));
+  for (const agent of agents) {
+    const status = agent.available ? 'available' : `unavailable (${agent.error})`;
+    io.stdout.write(`${agent.name.padEnd(width)}  ${agent.builtin ? 'built-in' : 'custom  '}  ${status}\n`);
+  }
+  return 0;
+}
+
+/**
+ * `headless-coder run --provider <name> [prompt]` and `headless-coder resume <threadId> --provider <name> [prompt]`.
+ * The thread id is written to stderr so scripts can resume the conversation later.
+ */
+export async function runPromptCommand(args: string[], io: CliIO, mode: 'run' | 'resume'): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, PROMPT_OPTIONS);
+  const threadId = mode === 'resume' ? positionals.shift() : undefined;
+  if (mode === 'resume' && !threadId) throw new UsageError('resume expects a thread id.');
+  if (!values.provider) throw new UsageError(`${mode} needs --provider.`);
+  if (positionals.length > 1) throw new UsageError('Quote the prompt so it is passed as one argument.');
+  const format = values.format ?? 'pretty';
+  if (format !== 'pretty' && format !== 'json') throw new UsageError('--format must be pretty or json.');
+  const startOpts = toStartOpts(values);
+
+  const prompt = positionals[0] ?? (await readPrompt(io));
+  const schema = values.schema ? await readSchema(values.schema) : undefined;
+  await ensureAdapters([values.provider]);
+  const coder = createCoder(values.provider);
+  const thread = threadId ? await coder.resumeThread(threadId, startOpts) : await coder.startThread(startOpts);
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort('Interrupted by SIGINT');
+  process.once('SIGINT', onSigint);
+  const runOpts: RunOpts = { signal: controller.signal, outputSchema: schema };
+  try {
+    if (values.stream) return await streamPrompt(thread, prompt, runOpts, format, io);
+    const result = schema
+      ? await runStructured(thread, prompt, schema, { signal: controller.signal })
+      : await thread.run(prompt, runOpts);
+    writeResult(result, format, io);
+    return 0;
+  } catch (error) {
+    io.stderr.write(`headless-coder: ${(error as Error).message}\n`);
+    return EXIT_FAILURE;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+    const id = coder.getThreadId(thread) ?? threadId;
+    if (id) io.stderr.write(`thread: ${id}\n`);
+    await coder.close?.(thread);
+  }
+}
+
+async function streamPrompt(
+  thread: ThreadHandle,
+  prompt: string,
+  runOpts: RunOpts,
+  format: 'pretty' | 'json',
+  io: CliIO,
+): Promise<number> {
+  const renderer = createEventRenderer();
+  let failed = false;
+  for await (const event of thread.runStreamed(prompt, runOpts)) {
+    io.stdout.write(format === 'json' ? `${toNdjson(event)}\n` : renderer.render(event));
+    if (event.type === 'error' || event.type === 'cancelled') failed = true;
+  }
+  return failed ? EXIT_FAILURE : 0;
+}
+
+function writeResult(result: RunResult, format: 'pretty' | 'json', io: CliIO): void {
+  if (format === 'json') {
+    io.stdout.write(`${toNdjson(result)}\n`);
+  } else if (result.json !== undefined) {
+    io.stdout.write(`${JSON.stringify(result.json, null, 2)}\n`);
+  } else if (result.text) {
+    io.stdout.write(result.text.endsWith('\n') ? result.text : `${result.text}\n`);
+  }
+}
+
+async function readPrompt(io: CliIO): Promise<string> {
+  const stdin = io.stdin;
+  if (!stdin || stdin.isTTY) throw new UsageError('Pass a prompt argument or pipe one on stdin.');
+  let text = '';
+  for await (const chunk of stdin) text += String(chunk);
+  if (!text.trim()) throw new UsageError('The prompt on stdin is empty.');
+  return text;
+}
+
+async function readSchema(file: string): Promise<object> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as object;
+  } catch (error) {
+    throw new UsageError(`Cannot read schema ${file}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Human-readable rendering of normalized stream events for terminals.
+ */
+
+import type { CoderStreamEvent, UsageStats } from '@headless-coder-sdk/core';
+
+const MAX_DETAIL = 160;
+
+/**
+ * Incremental renderer: returns the text to write for each event, tracking whether a delta stream left the cursor
+ * mid-line.
+ */
+export interface EventRenderer {
+  render(event: CoderStreamEvent): string;
+}
+
+/**
+ * Creates a renderer. Assistant deltas are written as they arrive; other events get one line each.
+ */
+export function createEventRenderer(): EventRenderer {
+  let midLine = false;
+  let streamedText = false;
+
+  const line = (text: string) => {
+    const prefix = midLine ? '\n' : '';
+    midLine = false;
+    return `${prefix}${text}\n`;
+  };
+
+  return {
+    render(event) {
+      switch (event.type) {
+        case 'init': {
+          streamedText = false;
+          const model = event.model ? ` (${event.model})` : '';
+          return line(`● ${event.provider}${model}${event.threadId ? ` thread ${event.threadId}` : ''}`);
+        }
+        case 'message': {
+          if (event.role !== 'assistant' || !event.text) return '';
+          if (event.delta) {
+            midLine = !event.text.endsWith('\n');
+            streamedText = true;
+            return event.text;
+          }
+          // Adapters that stream deltas usually repeat the full message at the end.
+          if (streamedText) return '';
+          return line(event.text.trimEnd());
+        }
+        case 'tool_use':
+          return line(`→ ${event.name}${event.args === undefined ? '' : ` ${summarize(event.args)}`}`);
+        case 'tool_result': {
+          const status = event.error ? 'failed' : event.exitCode != null ? `exit ${event.exitCode}` : 'done';
+          return line(`← ${event.name} ${status}`);
+        }
+        case 'file_change':
+          return line(`✎ ${event.op ?? 'change'} ${event.path ?? ''}`.trimEnd());
+        case 'plan_update':
+          return event.text ? line(`☰ ${event.text}`) : '';
+        case 'permission':
+          return line(`🔒 permission ${event.decision ?? 'requested'}`);
+        case 'progress':
+          return line(`… ${[event.label, event.detail].filter(Boolean).join(': ')}`);
+        case 'usage':
+          return event.stats ? line(`Σ ${formatUsage(event.stats)}`) : '';
+        case 'error':
+          return line(`✖ ${event.code ? `${event.code}: ` : ''}${event.message}`);
+        case 'cancelled':
+          return line('✖ cancelled');
+        case 'done':
+          streamedText = false;
+          return midLine ? line('') : '';
+        default:
+          return '';
+      }
+    },
+  };
+}
+
+/**
+ * One-line usage summary such as `1200 in / 350 out tokens, $0.0123`.
+ */
+export function formatUsage(usage: UsageStats): string {
+  const parts: string[] = [];
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    parts.push(`${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out tokens`);
+  }
+  if (usage.toolCalls) parts.push(`${usage.toolCalls} tool call(s)`);
+  if (usage.costUsd !== undefined) {
+    parts.push(`$${usage.costUsd.toFixed(4)}${usage.costSource === 'estimate' ? ' (est.)' : ''}`);
+  }
+  if (usage.durationMs !== undefined) parts.push(`${(usage.durationMs / 1000).toFixed(1)}s`);
+  return parts.join(', ') || 'no usage reported';
+}
+
+/**
+ * Serialises an event on one line, replacing circular references and Error objects with plain data.
+ */
+export function toNdjson(value: unknown): string {
+  // Only the chain of objects being serialised counts: an object shared by two siblings is not a cycle.
+  const ancestors: object[] = [];
+  return JSON.stringify(value, function (this: unknown, _key, item: unknown) {
+    if (typeof item === 'bigint') return item.toString();
+    if (typeof item !== 'object' || item === null) return item;
+    const plain = item instanceof Error ? { name: item.name, message: item.message, code: (item as any).code } : item;
+    while (ancestors.length && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+    if (ancestors.includes(plain)) return '[Circular]';
+    ancestors.push(plain);
+    return plain;
+  });
+}
+
+function summarize(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length > MAX_DETAIL ? `${flat.slice(0, MAX_DETAIL - 1)}…` : flat;
+}
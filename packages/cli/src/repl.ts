@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Interactive multi-turn sessions (`headless-coder chat`).
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { createCoder, mergeUsage } from '@headless-coder-sdk/core';
+import type { AdapterName, StartOpts, ThreadHandle, UsageStats } from '@headless-coder-sdk/core';
+import { ensureAdapters } from './adapters.js';
+import { parseCommandArgs, THREAD_OPTIONS, toStartOpts, UsageError } from './args.js';
+import type { CliIO } from './args.js';
+import { createEventRenderer, formatUsage, toNdjson } from './render.js';
+
+const HELP = `Commands:
+  /model [name]    Show the model, or continue the conversation with another one
+  /fork            Branch the conversation into a new thread
+  /usage           Show usage for the last turn and the whole session
+  /save <file>     Save the transcript as Markdown (JSON when the file ends in .json)
+  /help            Show this help
+  /exit            End the session (Ctrl+D works too)
+Ctrl+C interrupts the running turn; press it twice at the prompt to quit.
+`;
+
+/** Window in which a second Ctrl+C at an idle prompt ends the session. */
+const EXIT_SIGINT_WINDOW_MS = 2000;
+
+/**
+ * Options for an interactive session.
+ */
+export interface ReplOptions {
+  provider: AdapterName;
+  startOpts?: StartOpts;
+  /** Resume this thread instead of starting a new one. */
+  threadId?: string;
+}
+
+/**
+ * One interactive conversation. A single ThreadHandle is kept across turns and replaced only by `/model` and `/fork`.
+ */
+export interface ReplSession {
+  /** The thread the next turn runs on. */
+  readonly thread: ThreadHandle;
+  /** Id of the current thread, once the provider assigned one. */
+  readonly threadId: string | undefined;
+  /**
+   * Runs a prompt or slash command, rendering its events as they arrive.
+   *
+   * @returns `false` once the user asked to end the session.
+   */
+  handle(line: string): Promise<boolean>;
+  /** Interrupts the running turn; returns `false` when no turn is running. */
+  interrupt(): boolean;
+  /** Closes the current thread. */
+  close(): Promise<void>;
+}
+
+interface TranscriptEntry {
+  role: 'user' | 'assistant' | 'tool';
+  text: string;
+  ts: number;
+}
+
+/**
+ * Opens a thread on `provider` (registering the built-in adapter if needed) and returns a session that writes to `io`.
+ */
+export async function createReplSession(options: ReplOptions, io: CliIO): Promise<ReplSession> {
+  await ensureAdapters([options.provider]);
+  const coder = createCoder(options.provider);
+  let startOpts: StartOpts = { ...options.startOpts };
+  let thread = options.threadId
+    ? await coder.resumeThread(options.threadId, startOpts)
+    : await coder.startThread(startOpts);
+
+  const transcript: TranscriptEntry[] = [];
+  const renderer = createEventRenderer();
+  const write = (text: string) => io.stdout.write(text);
+  let running: AbortController | undefined;
+  let lastUsage: UsageStats | undefined;
+  let totalUsage: UsageStats | undefined;
+  // Forks without native support start a fresh thread that receives the conversation with its first prompt.
+  let seed: string | undefined;
+  let nativeFork = false;
+
+  const threadId = () => coder.getThreadId(thread) ?? thread.id;
+  const replaceThread = async (next: ThreadHandle) => {
+    const previous = thread;
+    thread = next;
+    await coder.close?.(previous);
+  };
+
+  const runTurn = async (prompt: string) => {
+    const input = seed ? `${seed}\n\n${prompt}` : prompt;
+    seed = undefined;
+    transcript.push({ role: 'user', text: prompt, ts: Date.now() });
+    const controller = new AbortController();
+    running = controller;
+    let streamed = '';
+    let reply: string | undefined;
+    let usage: UsageStats | undefined;
+    try {
+      for await (const event of thread.runStreamed(input, { signal: controller.signal, streamPartialMessages: true })) {
+        write(renderer.render(event));
+        if (event.type === 'message' && event.role === 'assistant' && event.text) {
+          if (event.delta) streamed += event.text;
+          else reply = event.text;
+        } else if (event.type === 'tool_use') {
+          const args = event.args === undefined ? '' : ` ${toNdjson(event.args)}`;
+          transcript.push({ role: 'tool', text: `${event.name}${args}`, ts: event.ts });
+        } else if (event.type === 'usage') {
+          usage = mergeUsage(usage, event.stats);
+        }
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      write(renderer.render({ type: 'error', provider: thread.provider, message, ts: Date.now() }));
+    } finally {
+      running = undefined;
+    }
+    const text = (reply ?? streamed).trim();
+    if (text) transcript.push({ role: 'assistant', text, ts: Date.now() });
+    lastUsage = usage;
+    totalUsage = mergeUsage(totalUsage, usage);
+    // Keep continuing the forked session rather than forking again on every turn.
+    const forkedId = threadId();
+    if (nativeFork && forkedId) {
+      nativeFork = false;
+      await replaceThread(await coder.resumeThread(forkedId, startOpts));
+    }
+  };
+
+  const switchModel = async (model: string) => {
+    if (!model) {
+      write(`model: ${startOpts.model ?? 'provider default'}\n`);
+      return;
+    }
+    startOpts = { ...startOpts, model };
+    const id = threadId();
+    await replaceThread(id ? await coder.resumeThread(id, startOpts) : await coder.startThread(startOpts));
+    write(`model: ${model}\n`);
+  };
+
+  const fork = async () => {
+    const id = threadId();
+    if (!id || !transcript.length) {
+      write('Nothing to fork yet.\n');
+      return;
+    }
+    if (thread.provider === 'claude') {
+      nativeFork = true;
+      await replaceThread(await coder.resumeThread(id, { ...startOpts, forkSession: true }));
+    } else {
+      seed = condenseTranscript(transcript);
+      await replaceThread(await coder.startThread(startOpts));
+    }
+    write(`Forked from ${id}; the new thread starts with your next prompt.\n`);
+  };
+
+  const showUsage = () => {
+    write(`last turn: ${lastUsage ? formatUsage(lastUsage) : 'no usage reported'}\n`);
+    write(`session: ${totalUsage ? formatUsage(totalUsage) : 'no usage reported'}\n`);
+    const id = threadId();
+    if (id) write(`thread: ${id}\n`);
+  };
+
+  const save = async (file: string) => {
+    if (!file) {
+      write('Usage: /save <file>\n');
+      return;
+    }
+    const meta = { provider: thread.provider, threadId: threadId(), model: startOpts.model };
+    const content = /\.json$/i.test(file)
+      ? `${JSON.stringify({ ...meta, transcript }, null, 2)}\n`
+      : renderMarkdown(meta, transcript);
+    await writeFile(file, content);
+    write(`Saved ${transcript.length} entries to ${file}\n`);
+  };
+
+  return {
+    get thread() {
+      return thread;
+    },
+    get threadId() {
+      return threadId();
+    },
+    async handle(line) {
+      const text = line.trim();
+      if (!text) return true;
+      if (!text.startsWith('/')) {
+        await runTurn(text);
+        return true;
+      }
+      const [command, ...rest] = text.slice(1).split(/\s+/);
+      const arg = rest.join(' ');
+      try {
+        switch (command) {
+          case 'model':
+            await switchModel(arg);
+            break;
+          case 'fork':
+            await fork();
+            break;
+          case 'usage':
+            showUsage();
+            break;
+          case 'save':
+            await save(arg);
+            break;
+          case 'help':
+            write(HELP);
+            break;
+          case 'exit':
+          case 'quit':
+            return false;
+          default:
+            write(`Unknown command /${command}. Type /help for the list.\n`);
+        }
+      } catch (error) {
+        write(`✖ /${command} failed: ${(error as Error).message}\n`);
+      }
+      return true;
+    },
+    interrupt() {
+      const controller = running;
+      if (!controller) return false;
+      const reason = 'Interrupted by the user';
+      if (thread.interrupt) thread.interrupt(reason).catch(() => controller.abort(reason));
+      else controller.abort(reason);
+      return true;
+    },
+    async close() {
+      await coder.close?.(thread);
+    },
+  };
+}
+
+/**
+ * `headless-coder chat --provider <name> [--resume <threadId>]`.
+ */
+export async function runChatCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parseCommandArgs(args, { ...THREAD_OPTIONS, resume: { type: 'string' } });
+  if (!values.provider) throw new UsageError('chat needs --provider.');
+  if (positionals.length) throw new UsageError('chat does not take a prompt; type it at the chat prompt.');
+  const stdin = io.stdin;
+  if (!stdin) throw new UsageError('chat needs a readable stdin.');
+
+  const session = await createReplSession(
+    { provider: values.provider, startOpts: toStartOpts(values), threadId: values.resume },
+    io,
+  );
+  const rl = createInterface({
+    input: stdin,
+    output: io.stdout,
+    terminal: stdin.isTTY === true,
+    prompt: `${values.provider}> `,
+  });
+  let lastSigint = 0;
+  const onSigint = () => {
+    if (session.interrupt()) return;
+    if (Date.now() - lastSigint < EXIT_SIGINT_WINDOW_MS) {
+      rl.close();
+      return;
+    }
+    lastSigint = Date.now();
+    io.stdout.write('\n(To exit, press Ctrl+C again or type /exit)\n');
+    rl.prompt();
+  };
+  // Terminals deliver Ctrl+C to readline; piped input receives it as a process signal.
+  rl.on('SIGINT', onSigint);
+  process.on('SIGINT', onSigint);
+
+  io.stdout.write(`Chatting with ${values.provider}. Type /help for commands.\n`);
+  rl.prompt();
+  try {
+    for await (const line of rl) {
+      if (!(await session.handle(line))) break;
+      rl.prompt();
+    }
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+    rl.close();
+    const id = session.threadId;
+    await session.close();
+    if (id) io.stderr.write(`thread: ${id}\n`);
+  }
+  return 0;
+}
+
+function condenseTranscript(transcript: TranscriptEntry[]): string {
+  const lines = transcript
+    .filter(entry => entry.role !== 'tool')
+    .map(entry => `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.text}`);
+  return `This conversation continues an earlier one:\n\n${lines.join('\n\n')}\n\nThe new message follows.`;
+}
+
+function renderMarkdown(
+  meta: { provider: string; threadId?: string; model?: string },
+  transcript: TranscriptEntry[],
+): string {
+  const header = [`- Provider: ${meta.provider}`];
+  if (meta.model) header.push(`- Model: ${meta.model}`);
+  if (meta.threadId) header.push(`- Thread: ${meta.threadId}`);
+  const body = transcript.map(entry =>
+    entry.role === 'tool'
+      ? `> tool: \`${entry.text}\``
+      : `## ${entry.role === 'user' ? 'User' : 'Assistant'}\n\n${entry.text}`,
+  );
+  return `# headless-coder session\n\n${header.join('\n')}\n\n${body.join('\n\n')}\n`;
+}
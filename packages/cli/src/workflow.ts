@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Declarative workflow files (YAML or JSON) compiled into core pipelines.
+ */
+
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { lookupPath, validateAgainstSchema } from '@headless-coder-sdk/core';
+import type {
+  AdapterName,
+  PipelineContext,
+  PipelineDefinition,
+  PipelineNode,
+  RetryPolicy,
+  RunBudget,
+  StartOpts,
+} from '@headless-coder-sdk/core';
+
+const SCHEMA_URL = new URL('../workflow.schema.json', import.meta.url);
+
+let schema: object | undefined;
+
+/**
+ * Step entry of a workflow file.
+ */
+export interface WorkflowStep {
+  name: string;
+  provider: AdapterName;
+  prompt: string;
+  /** Condition such as `steps.plan.json.needsCode == true`; the step is skipped when it is false. */
+  when?: string;
+  session?: string;
+  startOpts?: StartOpts;
+  /** Inline JSON Schema, or a path to one relative to the workflow file. */
+  outputSchema?: object | string;
+  retry?: RetryPolicy;
+  budget?: RunBudget;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  trackChanges?: boolean;
+}
+
+/**
+ * Loop entry of a workflow file.
+ */
+export interface WorkflowLoop {
+  name: string;
+  loop: { steps: WorkflowNode[]; until: string; maxIterations?: number };
+}
+
+export type WorkflowNode = WorkflowStep | WorkflowLoop;
+
+/**
+ * Parsed workflow file, validated against `workflow.schema.json`.
+ */
+export interface Workflow {
+  version?: 1;
+  name?: string;
+  description?: string;
+  input?: string;
+  vars?: Record<string, unknown>;
+  defaults?: StartOpts;
+  steps: WorkflowNode[];
+  /** Directory of the workflow file, used to resolve `outputSchema` paths. */
+  baseDir: string;
+}
+
+/**
+ * Raised when a workflow file cannot be parsed or does not match the workflow schema.
+ */
+export class WorkflowError extends Error {
+  constructor(
+    message: string,
+    readonly file?: string,
+  ) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/**
+ * Returns the JSON Schema workflow files are validated against.
+ */
+export function getWorkflowSchema(): object {
+  schema ??= JSON.parse(readFileSync(SCHEMA_URL, 'utf8')) as object;
+  return schema;
+}
+
+/**
+ * Reads and validates a workflow file. `.yaml`/`.yml` files are parsed as YAML, everything else as JSON.
+ *
+ * @throws WorkflowError when the file cannot be parsed or is invalid.
+ */
+export async function loadWorkflow(file: string): Promise<Workflow> {
+  const source = await readFile(file, 'utf8');
+  let raw: unknown;
+  try {
+    if (/\.ya?ml$/i.test(file)) {
+      const { parse } = await import('yaml');
+      raw = parse(source);
+    } else {
+      raw = JSON.parse(source);
+    }
+  } catch (error) {
+    throw new WorkflowError(`Cannot parse ${file}: ${(error as Error).message}`, file);
+  }
+  return parseWorkflow(raw, path.dirname(path.resolve(file)), file);
+}
+
+/**
+ * Validates an already-parsed workflow document.
+ *
+ * @throws WorkflowError listing every schema violation, or an invalid condition.
+ */
+export function parseWorkflow(raw: unknown, baseDir = process.cwd(), file?: string): Workflow {
+  const issues = validateAgainstSchema(getWorkflowSchema(), raw);
+  if (issues.length) {
+    const details = issues.map(issue => `${issue.path || '/'} ${issue.message}`).join('; ');
+    throw new WorkflowError(`Invalid workflow${file ? ` ${file}` : ''}: ${details}`, file);
+  }
+  const workflow = { ...(raw as Omit<Workflow, 'baseDir'>), baseDir };
+  try {
+    checkConditions(workflow.steps);
+  } catch (error) {
+    throw new WorkflowError(`Invalid workflow${file ? ` ${file}` : ''}: ${(error as Error).message}`, file);
+  }
+  return workflow;
+}
+
+/**
+ * Compiles a workflow into a PipelineDefinition for createPipeline().
+ *
+ * `vars` entries override the file's variables.
+ */
+export async function toPipelineDefinition(
+  workflow: Workflow,
+  vars?: Record<string, unknown>,
+): Promise<PipelineDefinition> {
+  return {
+    vars: { ...workflow.vars, ...vars },
+    defaults: workflow.defaults,
+    steps: await Promise.all(workflow.steps.map(node => compileNode(node, workflow.baseDir))),
+  };
+}
+
+/**
+ * Evaluates a workflow condition against the pipeline context.
+ *
+ * Supports dotted paths (`steps.review.json.approved`), JSON literals, `==`, `!=`, `!`, `&&`, `||` and
+ * parentheses. A bare path is tested for truthiness.
+ *
+ * @throws When the expression cannot be parsed.
+ */
+export function evaluateCondition(expression: string, context: PipelineContext | object): boolean {
+  return truthy(parseCondition(expression)(context));
+}
+
+async function compileNode(node: WorkflowNode, baseDir: string): Promise<PipelineNode> {
+  if ('loop' in node) {
+    const until = parseCondition(node.loop.until);
+    return {
+      name: node.name,
+      maxIterations: node.loop.maxIterations,
+      until: context => truthy(until(context)),
+      steps: await Promise.all(node.loop.steps.map(child => compileNode(child, baseDir))),
+    };
+  }
+  const when = node.when ? parseCondition(node.when) : undefined;
+  return {
+    name: node.name,
+    provider: node.provider,
+    prompt: node.prompt,
+    session: node.session,
+    startOpts: node.startOpts,
+    when: when && (context => truthy(when(context))),
+    runOpts: {
+      outputSchema: await resolveSchema(node.outputSchema, baseDir),
+      retry: node.retry,
+      budget: node.budget,
+      timeoutMs: node.timeoutMs,
+      idleTimeoutMs: node.idleTimeoutMs,
+      trackChanges: node.trackChanges,
+    },
+  };
+}
+
+async function resolveSchema(value: object | string | undefined, baseDir: string): Promise<object | undefined> {
+  if (typeof value !== 'string') return value;
+  const file = path.resolve(baseDir, value);
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as object;
+  } catch (error) {
+    throw new WorkflowError(`Cannot read output schema ${file}: ${(error as Error).message}`, file);
+  }
+}
+
+function checkConditions(nodes: WorkflowNode[]): void {
+  for (const node of nodes) {
+    if ('loop' in node) {
+      parseCondition(node.loop.until);
+      checkConditions(node.loop.steps);
+    } else if (node.when) {
+      parseCondition(node.when);
+    }
+  }
+}
+
+type Evaluator = (context: object) => unknown;
+
+const TOKEN_PATTERN =
+  /\s*(?:(&&|\|\||==|!=|!|\(|\))|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)\b|([A-Za-z_$][\w$-]*(?:\.[\w$-]+)*))/y;
+
+function parseCondition(expression: string): Evaluator {
+  const tokens = tokenize(expression);
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = () => tokens[position++];
+  const fail = (message: string): never => {
+    throw new Error(`Condition "${expression}": ${message}`);
+  };
+
+  const parseOr = (): Evaluator => {
+    let left = parseAnd();
+    while (peek() === '||') {
+      take();
+      const [a, b] = [left, parseAnd()];
+      left = context => truthy(a(context)) || truthy(b(context));
+    }
+    return left;
+  };
+  const parseAnd = (): Evaluator => {
+    let left = parseComparison();
+    while (peek() === '&&') {
+      take();
+      const [a, b] = [left, parseComparison()];
+      left = context => truthy(a(context)) && truthy(b(context));
+    }
+    return left;
+  };
+  const parseComparison = (): Evaluator => {
+    const left = parseUnary();
+    const operator = peek();
+    if (operator !== '==' && operator !== '!=') return left;
+    take();
+    const right = parseUnary();
+    return context => (deepEqual(left(context), right(context)) ? operator === '==' : operator === '!=');
+  };
+  const parseUnary = (): Evaluator => {
+    const token = take();
+    if (token === undefined) return fail('unexpected end of expression');
+    if (token === '!') {
+      const operand = parseUnary();
+      return context => !truthy(operand(context));
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      if (take() !== ')') fail('missing closing parenthesis');
+      return inner;
+    }
+    if (typeof token !== 'string') return () => token.value;
+    if (token === 'true' || token === 'false' || token === 'null') {
+      const value = JSON.parse(token);
+      return () => value;
+    }
+    if (/^[A-Za-z_$]/.test(token)) return context => lookupPath(context, token);
+    return fail(`unexpected "${token}"`);
+  };
+
+  const evaluate = parseOr();
+  if (position < tokens.length) fail(`unexpected "${String(tokens[position])}"`);
+  return evaluate;
+}
+
+function tokenize(expression: string): (string | { value: unknown })[] {
+  const tokens: (string | { value: unknown })[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (expression.slice(TOKEN_PATTERN.lastIndex).trim()) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) throw new Error(`Condition "${expression}": cannot parse "${expression.slice(start).trim()}"`);
+    const [, operator, quoted, number, identifier] = match;
+    if (operator || identifier) tokens.push(operator ?? identifier);
+    else if (quoted) tokens.push({ value: quoted[0] === '"' ? JSON.parse(quoted) : quoted.slice(1, -1) });
+    else tokens.push({ value: Number(number) });
+  }
+  return tokens;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,20 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: {
+    index: 'src/index.ts',
+    bin: 'src/bin.ts',
+  },
+  // ESM only: the workflow schema is located through import.meta.url.
+  format: ['esm'],
+  dts: { entry: { index: 'src/index.ts' } },
+  sourcemap: true,
+  clean: true,
+  splitting: false,
+  treeshake: false,
+  minify: false,
+  target: 'node18',
+  platform: 'node',
+  tsconfig: 'tsconfig.build.json',
+  outDir: 'dist',
+});
@@ -9,9 +9,21 @@ import {
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  finalizeUsage,
+  toFiniteNumber,
+  extractJsonPayload,
+  createUnifiedPatch,
+  BusyError,
+  InterruptedError,
+  classifyError,
+  toHeadlessCoderError,
+  createRunDeadline,
+  withHeartbeat,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  HeadlessCoderError,
+  RunDeadline,
   HeadlessCoder,
   ThreadHandle,
   PromptInput,
@@ -21,6 +33,7 @@ import type {
   CoderStreamEvent,
   EventIterator,
   Provider,
+  UsageStats,
 } from '@headless-coder-sdk/core';
 
 const isNodeRuntime = typeof process !== 'undefined' && !!process.versions?.node;
@@ -40,6 +53,15 @@ async function loadCodexModule(): Promise<CodexModule> {
   return codexModulePromise;
 }
 
+type ChildProcessModule = typeof import('node:child_process');
+let childProcessModule: ChildProcessModule | undefined;
+
+/** Loaded lazily (like the Codex SDK) so importing the adapter stays side-effect free outside Node. */
+async function loadChildProcessModule(): Promise<ChildProcessModule> {
+  childProcessModule ??= await import('node:child_process');
+  return childProcessModule;
+}
+
 function ensureNodeRuntime(action: string): void {
   if (!isNodeRuntime) {
     throw new Error(
@@ -73,6 +95,8 @@ interface CodexThreadState {
   id?: string;
   options: CodexThreadOptions;
   codexExecutablePath?: string;
+  /** StartOpts.trackChanges; runs only snapshot the work tree for file_change patches when changes are tracked. */
+  trackChanges: boolean;
   currentRun?: ActiveRun | null;
 }
 
@@ -83,11 +107,32 @@ interface CodexRunSummary {
   usage?: any;
 }
 
+/** Per-turn bookkeeping needed to normalise Codex usage (the SDK reports tokens only) and file changes. */
+interface CodexTurnTracker {
+  startedAt: number;
+  model?: string;
+  toolCalls: number;
+  workingDirectory?: string;
+  /** Git tree of the work tree when the turn started; undefined outside a git checkout or without trackChanges. */
+  baseline?: string;
+  /** File contents as of the latest `file_change` for each absolute path (undefined once deleted). */
+  edits: Map<string, string | undefined>;
+}
+
+const CODEX_CHANGE_OPS: Record<string, 'create' | 'modify' | 'delete'> = {
+  add: 'create',
+  update: 'modify',
+  delete: 'delete',
+};
+
+const CODEX_TOOL_ITEM_TYPES = new Set(['command_execution', 'mcp_tool_call', 'web_search', 'file_change']);
+
 type RunTurnOptions = Pick<TurnOptions, 'outputSchema' | 'signal'>;
 
 interface ActiveRun {
   abortController: AbortController;
   stopExternal: () => void;
+  deadline: RunDeadline;
   aborted: boolean;
   abortReason?: string;
 }
@@ -100,6 +145,7 @@ export class CodexAdapter implements HeadlessCoder {
     const state: CodexThreadState = {
       options: this.extractThreadOptions(merged),
       codexExecutablePath: merged.codexExecutablePath,
+      trackChanges: !!merged.trackChanges,
     };
     return this.createThreadHandle(state);
   }
@@ -110,6 +156,7 @@ export class CodexAdapter implements HeadlessCoder {
       id: threadId,
       options: this.extractThreadOptions(merged),
       codexExecutablePath: merged.codexExecutablePath,
+      trackChanges: !!merged.trackChanges,
     };
     return this.createThreadHandle(state);
   }
@@ -126,33 +173,38 @@ export class CodexAdapter implements HeadlessCoder {
     const active: ActiveRun = {
       abortController,
       stopExternal,
+      deadline: createRunDeadline(opts, error => this.abortCurrentRun(state, error.message), CODER_NAME),
       aborted: false,
     };
     state.currentRun = active;
+    const tracker = createTurnTracker(state);
 
     try {
       const thread = await this.createThread(state);
-      const summary = await collectRunSummary(thread, normalizedInput, {
-        outputSchema: opts?.outputSchema,
-        signal: abortController.signal,
-      });
+      const summary = await collectRunSummary(
+        thread,
+        normalizedInput,
+        { outputSchema: opts?.outputSchema, signal: abortController.signal },
+        active.deadline.touch,
+      );
       const threadId = thread.id ?? undefined;
       if (threadId) {
         state.id = threadId;
         handle.id = threadId;
       }
-      return this.mapRunResult(summary, threadId);
+      return this.mapRunResult(summary, tracker, threadId);
     } catch (error) {
       if (isAbortError(error)) {
         const reason =
           active.abortReason ??
           reasonToString(abortController.signal.reason) ??
           (error instanceof Error ? error.message : undefined);
-        throw createAbortError(reason);
+        throw active.deadline.expired ?? createAbortError(reason);
       }
-      throw error;
+      throw toHeadlessCoderError(error, CODER_NAME);
     } finally {
       stopExternal();
+      active.deadline.dispose();
       if (state.currentRun === active) {
         state.currentRun = null;
       }
@@ -171,17 +223,23 @@ export class CodexAdapter implements HeadlessCoder {
     const active: ActiveRun = {
       abortController,
       stopExternal,
+      deadline: createRunDeadline(opts, error => this.abortCurrentRun(state, error.message), CODER_NAME),
       aborted: false,
     };
     state.currentRun = active;
 
     const adapter = this;
+    const tracker = createTurnTracker(state);
     const iterator = {
       async *[Symbol.asyncIterator]() {
         let completed = false;
         let threw = false;
         try {
           const thread = await adapter.createThread(state);
+          await loadChildProcessModule();
+          if (opts?.trackChanges ?? state.trackChanges) {
+            tracker.baseline = await captureGitBaseline(tracker.workingDirectory ?? process.cwd());
+          }
           const run = await thread.runStreamed(normalizedInput, {
             outputSchema: opts?.outputSchema,
             signal: abortController.signal,
@@ -192,7 +250,11 @@ export class CodexAdapter implements HeadlessCoder {
             handle.id = threadId;
           }
           for await (const event of run.events) {
-            for (const normalized of normalizeCodexEvent(event)) {
+            active.deadline.touch();
+            for (const normalized of normalizeCodexEvent(event, tracker)) {
+              if (normalized.type === 'file_change' && normalized.path) {
+                normalized.patch = await readEditPatch(normalized.path, tracker);
+              }
               yield normalized;
             }
           }
@@ -206,15 +268,16 @@ export class CodexAdapter implements HeadlessCoder {
               (error instanceof Error ? error.message : undefined) ??
               'Interrupted';
             yield createCancelledEvent(reason);
-            yield createInterruptedErrorEvent(reason);
+            yield createInterruptedErrorEvent(reason, active.deadline.expired);
             return;
           }
-          throw error;
+          throw toHeadlessCoderError(error, CODER_NAME);
         } finally {
           if (!completed && !abortController.signal.aborted && !threw) {
             adapter.abortCurrentRun(state, 'Stream closed');
           }
           stopExternal();
+          active.deadline.dispose();
           if (state.currentRun === active) {
             state.currentRun = null;
           }
@@ -222,7 +285,11 @@ export class CodexAdapter implements HeadlessCoder {
       },
     };
 
-    return iterator;
+    return withHeartbeat(iterator, {
+      provider: CODER_NAME,
+      intervalMs: opts?.heartbeatMs,
+      onAbandon: () => adapter.abortCurrentRun(state, 'Stream closed'),
+    });
   }
 
   getThreadId(thread: ThreadHandle): string | undefined {
@@ -265,22 +332,24 @@ export class CodexAdapter implements HeadlessCoder {
     return state.id ? codex.resumeThread(state.id, state.options) : codex.startThread(state.options);
   }
 
-  private mapRunResult(summary: CodexRunSummary, threadId?: string): RunResult {
+  private mapRunResult(summary: CodexRunSummary, tracker: CodexTurnTracker, threadId?: string): RunResult {
     const finalResponse = summary.finalResponse ?? '';
     const structured =
       summary.structured === undefined ? extractJsonPayload(finalResponse) : summary.structured;
+    tracker.toolCalls = summary.items.filter(item => CODEX_TOOL_ITEM_TYPES.has(item?.type)).length;
     return {
       threadId,
       text: finalResponse || undefined,
       json: structured,
-      usage: summary.usage,
+      usage: normalizeCodexUsage(summary.usage, tracker),
+      rawUsage: summary.usage,
       raw: summary,
     };
   }
 
   private assertIdle(state: CodexThreadState): void {
     if (state.currentRun) {
-      throw new Error('Codex adapter only supports one in-flight run per thread.');
+      throw new BusyError('Codex adapter only supports one in-flight run per thread.', { provider: CODER_NAME });
     }
   }
 
@@ -295,6 +364,32 @@ export class CodexAdapter implements HeadlessCoder {
   }
 }
 
+function createTurnTracker(state: CodexThreadState): CodexTurnTracker {
+  return {
+    startedAt: Date.now(),
+    model: state.options.model,
+    toolCalls: 0,
+    workingDirectory: state.options.workingDirectory,
+    edits: new Map(),
+  };
+}
+
+/**
+ * Maps Codex turn usage onto UsageStats. Codex already counts `reasoning_output_tokens` inside `output_tokens`.
+ */
+function normalizeCodexUsage(usage: any, tracker: CodexTurnTracker): UsageStats | undefined {
+  if (!usage) return undefined;
+  return finalizeUsage({
+    inputTokens: toFiniteNumber(usage.input_tokens),
+    outputTokens: toFiniteNumber(usage.output_tokens),
+    cachedInputTokens: toFiniteNumber(usage.cached_input_tokens),
+    reasoningTokens: toFiniteNumber(usage.reasoning_output_tokens),
+    toolCalls: tracker.toolCalls,
+    durationMs: Date.now() - tracker.startedAt,
+    model: tracker.model,
+  });
+}
+
 function normalizeInput(input: PromptInput): string {
   if (typeof input === 'string') return input;
   return input.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n');
@@ -304,6 +399,7 @@ async function collectRunSummary(
   thread: Thread,
   input: string,
   options: RunTurnOptions,
+  onEvent: () => void,
 ): Promise<CodexRunSummary> {
   const run = await thread.runStreamed(input, options);
   const items: any[] = [];
@@ -312,6 +408,7 @@ async function collectRunSummary(
   let structured: unknown = undefined;
 
   for await (const event of run.events) {
+    onEvent();
     if (event.type === 'item.completed') {
       const item = event.item;
       items.push(item);
@@ -327,8 +424,7 @@ async function collectRunSummary(
         structured = extractStructuredFromTurn(event);
       }
     } else if (event.type === 'turn.failed') {
-      const message = event.error?.message ?? 'Codex turn failed';
-      throw new Error(message);
+      throw toHeadlessCoderError(event.error?.message ?? 'Codex turn failed', CODER_NAME);
     }
   }
 
@@ -339,20 +435,6 @@ async function collectRunSummary(
   return { items, finalResponse, structured, usage };
 }
 
-function extractJsonPayload(text: string | undefined): unknown | undefined {
-  if (!text) return undefined;
-  const fenced = text.match(/```json\s*([\s\S]+?)```/i);
-  const candidate = (fenced ? fenced[1] : text).trim();
-  const start = candidate.indexOf('{');
-  const end = candidate.lastIndexOf('}');
-  if (start === -1 || end === -1 || end < start) return undefined;
-  try {
-    return JSON.parse(candidate.slice(start, end + 1));
-  } catch {
-    return undefined;
-  }
-}
-
 function extractStructuredFromItem(item: any): unknown {
   if (!item) return undefined;
   return firstStructured([
@@ -379,7 +461,7 @@ function firstStructured(candidates: unknown[]): unknown {
   return undefined;
 }
 
-function normalizeCodexEvent(event: any): CoderStreamEvent[] {
+function normalizeCodexEvent(event: any, tracker: CodexTurnTracker): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const ev = event ?? {};
@@ -437,6 +519,22 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
 
   if (type === 'item.completed') {
     const item = ev.item ?? {};
+    if (CODEX_TOOL_ITEM_TYPES.has(item.type)) {
+      tracker.toolCalls += 1;
+    }
+    if (item.type === 'file_change' && item.status === 'completed' && Array.isArray(item.changes)) {
+      for (const change of item.changes) {
+        normalized.push({
+          type: 'file_change',
+          provider,
+          path: change.path,
+          op: CODEX_CHANGE_OPS[change.kind] ?? 'modify',
+          ts,
+          originalItem: ev,
+        });
+      }
+      return normalized;
+    }
     if (item.type === 'agent_message') {
       normalized.push({
         type: 'message',
@@ -490,7 +588,8 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
     normalized.push({
       type: 'usage',
       provider,
-      stats: ev.usage,
+      stats: normalizeCodexUsage(ev.usage, tracker),
+      rawStats: ev.usage,
       ts,
       originalItem: ev,
     });
@@ -499,11 +598,12 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
   }
 
   if (type === 'turn.failed') {
+    const message = ev.error?.message ?? 'Codex turn failed';
     normalized.push({
       type: 'error',
       provider,
-      code: 'turn.failed',
-      message: ev.error?.message ?? 'Codex turn failed',
+      code: classifyError(message),
+      message,
       ts,
       originalItem: ev,
     });
@@ -520,6 +620,66 @@ function normalizeCodexEvent(event: any): CoderStreamEvent[] {
   return normalized;
 }
 
+function runGit(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  const { execFile } = childProcessModule!;
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, env: { ...process.env, ...env }, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024, windowsHide: true },
+      (error, stdout) => (error ? reject(error) : resolve(stdout)),
+    );
+  });
+}
+
+/**
+ * Records the work tree (tracked and untracked files, honouring .gitignore) as a git tree object through a temporary
+ * index, so the user's index is left alone. Returns undefined outside a git checkout.
+ */
+async function captureGitBaseline(cwd: string): Promise<string | undefined> {
+  const [{ copyFile, mkdtemp, rm }, { tmpdir }, path] = await Promise.all([
+    import('node:fs/promises'),
+    import('node:os'),
+    import('node:path'),
+  ]);
+  let dir: string | undefined;
+  try {
+    const realIndex = (await runGit(cwd, ['rev-parse', '--path-format=absolute', '--git-path', 'index'])).trim();
+    dir = await mkdtemp(path.join(tmpdir(), 'headless-coder-codex-index-'));
+    const env = { GIT_INDEX_FILE: path.join(dir, 'index') };
+    // Seeding with the real index lets git reuse its stat cache instead of rehashing every file.
+    await copyFile(realIndex, env.GIT_INDEX_FILE).catch(() => {});
+    await runGit(cwd, ['add', '-A', '--', ':/'], env);
+    return (await runGit(cwd, ['write-tree'], env)).trim();
+  } catch {
+    return undefined;
+  } finally {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Codex reports which files an edit touched but not the hunks. The patch is rebuilt from the file's content at its
+ * previous edit in this turn, or from the turn's git baseline, so it covers this edit only. Returns undefined when
+ * neither is available (a file's first edit outside a git checkout or in a run without trackChanges).
+ */
+async function readEditPatch(filePath: string, tracker: CodexTurnTracker): Promise<string | undefined> {
+  const [{ readFile }, path] = await Promise.all([import('node:fs/promises'), import('node:path')]);
+  const cwd = path.resolve(tracker.workingDirectory ?? process.cwd());
+  const absolute = path.resolve(cwd, filePath);
+  const relative = path.relative(cwd, absolute).split(path.sep).join('/');
+  const after = await readFile(absolute, 'utf8').catch(() => undefined);
+  const seen = tracker.edits.has(absolute);
+  const before = seen
+    ? tracker.edits.get(absolute)
+    : tracker.baseline
+      ? await runGit(cwd, ['show', `${tracker.baseline}:./${relative}`]).catch(() => undefined)
+      : undefined;
+  tracker.edits.set(absolute, after);
+  if (!seen && !tracker.baseline) return undefined;
+  return createUnifiedPatch(relative, before, after) || undefined;
+}
+
 function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string) => void): () => void {
   if (!signal) return () => {};
   const handler = () => onAbort(reasonToString(signal.reason));
@@ -528,10 +688,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function isAbortError(error: unknown): boolean {
@@ -541,11 +698,11 @@ function isAbortError(error: unknown): boolean {
   );
 }
 
-function createInterruptedErrorEvent(reason?: string): CoderStreamEvent {
+function createInterruptedErrorEvent(reason?: string, timeout?: HeadlessCoderError): CoderStreamEvent {
   return {
     type: 'error',
     provider: CODER_NAME,
-    code: 'interrupted',
+    code: timeout?.code ?? 'interrupted',
     message: reason ?? 'Operation was interrupted',
     ts: now(),
     originalItem: { reason },
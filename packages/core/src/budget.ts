@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Token, cost, wall-clock and tool-call budgets enforced around thread runs.
+ */
+
+import { decorateThread } from './decorate.js';
+import { BudgetExceededError } from './errors.js';
+import type { ThreadDecorator } from './decorate.js';
+import { now } from './types.js';
+import type {
+  CoderStreamEvent,
+  EventIterator,
+  Provider,
+  RunBudget,
+  RunOpts,
+  RunResult,
+  UsageStats,
+} from './types.js';
+import { mergeUsage } from './usage.js';
+
+/**
+ * Describes the first budget limit a run crossed.
+ */
+export interface BudgetViolation {
+  limit: keyof RunBudget;
+  max: number;
+  actual: number;
+}
+
+interface BudgetGuard {
+  signal: AbortSignal;
+  violation?: BudgetViolation;
+  observe(event: CoderStreamEvent): void;
+  recordUsage(usage: UsageStats | undefined): void;
+  dispose(): void;
+}
+
+/**
+ * Thread decorator that interrupts runs once RunOpts.budget / StartOpts.budget is exceeded.
+ *
+ * Runs are stopped through the adapter's AbortSignal handling. Streams end with `cancelled` followed by an `error`
+ * event with code `budget_exceeded`; `run()` rejects with an error carrying the same code.
+ */
+export const budgetDecorator: ThreadDecorator = (inner, startOpts) => {
+  const resolveBudget = (opts?: RunOpts): RunBudget | undefined => {
+    if (opts?.budget === false) return undefined;
+    return opts?.budget ?? startOpts.budget;
+  };
+
+  return decorateThread(inner, {
+    run: async (input, opts) => {
+      const budget = resolveBudget(opts);
+      if (!budget) return inner.run(input, opts);
+      const guard = createGuard(budget, opts?.signal);
+      let result: RunResult;
+      try {
+        result = await inner.run(input, { ...opts, signal: guard.signal });
+      } catch (error) {
+        if (guard.violation) throw createBudgetError(guard.violation, inner.provider);
+        throw error;
+      } finally {
+        guard.dispose();
+      }
+      // Without a stream, token/cost/tool limits can only be checked once the provider reports usage.
+      guard.recordUsage(result.usage);
+      if (guard.violation) throw createBudgetError(guard.violation, inner.provider, result);
+      return result;
+    },
+    runStreamed: (input, opts): EventIterator => {
+      const budget = resolveBudget(opts);
+      if (!budget) return inner.runStreamed(input, opts);
+      return {
+        async *[Symbol.asyncIterator]() {
+          const guard = createGuard(budget, opts?.signal);
+          let cancelled = false;
+          try {
+            for await (const event of inner.runStreamed(input, { ...opts, signal: guard.signal })) {
+              if (guard.violation) {
+                // The adapter is winding down after our abort; keep its `cancelled` but replace the rest.
+                if (event.type === 'cancelled') {
+                  cancelled = true;
+                  yield event;
+                  continue;
+                }
+                break;
+              }
+              guard.observe(event);
+              yield event;
+              if (guard.violation) break;
+            }
+          } catch (error) {
+            if (!guard.violation) throw error;
+          } finally {
+            guard.dispose();
+          }
+          if (!guard.violation) return;
+          const violation = guard.violation;
+          if (!cancelled) {
+            yield {
+              type: 'cancelled',
+              provider: inner.provider,
+              ts: now(),
+              originalItem: { reason: 'budget_exceeded' },
+            };
+          }
+          yield {
+            type: 'error',
+            provider: inner.provider,
+            code: 'budget_exceeded',
+            message: describeViolation(violation),
+            ts: now(),
+            originalItem: violation,
+          };
+        },
+      };
+    },
+  });
+};
+
+function createGuard(budget: RunBudget, external?: AbortSignal): BudgetGuard {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  let usage: UsageStats | undefined;
+  let toolUses = 0;
+
+  const exceed = (violation: BudgetViolation) => {
+    if (guard.violation || controller.signal.aborted) return;
+    guard.violation = violation;
+    controller.abort(describeViolation(violation));
+  };
+
+  const check = () => {
+    const tokens = usage?.totalTokens ?? (usage ? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0) : 0);
+    const toolCalls = Math.max(toolUses, usage?.toolCalls ?? 0);
+    if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+      exceed({ limit: 'maxTokens', max: budget.maxTokens, actual: tokens });
+    } else if (budget.maxCostUsd !== undefined && (usage?.costUsd ?? 0) > budget.maxCostUsd) {
+      exceed({ limit: 'maxCostUsd', max: budget.maxCostUsd, actual: usage!.costUsd! });
+    } else if (budget.maxToolCalls !== undefined && toolCalls > budget.maxToolCalls) {
+      exceed({ limit: 'maxToolCalls', max: budget.maxToolCalls, actual: toolCalls });
+    }
+  };
+
+  const onExternalAbort = () => controller.abort(external?.reason);
+  if (external?.aborted) {
+    controller.abort(external.reason);
+  } else {
+    external?.addEventListener('abort', onExternalAbort, { once: true });
+  }
+
+  const timer =
+    budget.maxDurationMs === undefined
+      ? undefined
+      : setTimeout(
+          () => exceed({ limit: 'maxDurationMs', max: budget.maxDurationMs!, actual: Date.now() - startedAt }),
+          budget.maxDurationMs,
+        );
+
+  const guard: BudgetGuard = {
+    signal: controller.signal,
+    observe: event => {
+      if (event.type === 'tool_use') {
+        toolUses += 1;
+        check();
+      } else if (event.type === 'usage') {
+        guard.recordUsage(event.stats);
+      }
+    },
+    recordUsage: stats => {
+      usage = mergeUsage(usage, stats);
+      check();
+    },
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      external?.removeEventListener('abort', onExternalAbort);
+    },
+  };
+  return guard;
+}
+
+function describeViolation(violation: BudgetViolation): string {
+  return `Budget exceeded: ${violation.limit} ${violation.max} (used ${violation.actual})`;
+}
+
+function createBudgetError(violation: BudgetViolation, provider: Provider, result?: RunResult): BudgetExceededError {
+  return new BudgetExceededError(describeViolation(violation), { budget: violation, result, provider });
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Provider-neutral change reports built by snapshotting the working directory around each run.
+ */
+
+import { randomUUID } from 'node:crypto';
+import * as path from 'node:path';
+import { decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import { createSnapshotStore } from './snapshot.js';
+import type { SnapshotStore } from './snapshot.js';
+import { now } from './types.js';
+import type { ChangedFile, ChangeTrackingOptions, EventIterator, RunChanges, RunOpts } from './types.js';
+
+interface RunSnapshot {
+  store: SnapshotStore;
+  location: string;
+}
+
+/**
+ * Thread decorator that fills RunResult.changes when StartOpts.trackChanges (or RunOpts.trackChanges) is set.
+ */
+export const changesDecorator: ThreadDecorator = (inner, startOpts) => {
+  const options: ChangeTrackingOptions = typeof startOpts.trackChanges === 'object' ? startOpts.trackChanges : {};
+  const cwd = path.resolve(startOpts.workingDirectory ?? process.cwd());
+  let store: Promise<SnapshotStore> | undefined;
+
+  const enabled = (opts?: RunOpts) => opts?.trackChanges ?? !!startOpts.trackChanges;
+
+  const begin = async (): Promise<RunSnapshot> => {
+    store ??= createSnapshotStore(cwd, options);
+    const resolved = await store;
+    const id = `changes-${Date.now().toString(36)}-${randomUUID().slice(0, 8)}`;
+    return { store: resolved, location: await resolved.snapshot(id) };
+  };
+
+  const collect = async (snapshot: RunSnapshot) => summarizeChanges(await snapshot.store.changes(snapshot.location));
+  const release = (snapshot: RunSnapshot) => snapshot.store.discard(snapshot.location);
+
+  return decorateThread(inner, {
+    run: async (input, opts) => {
+      if (!enabled(opts)) return inner.run(input, opts);
+      const snapshot = await begin();
+      try {
+        const result = await inner.run(input, opts);
+        return { ...result, changes: await collect(snapshot) };
+      } finally {
+        await release(snapshot);
+      }
+    },
+    runStreamed: (input, opts): EventIterator => {
+      if (!enabled(opts)) return inner.runStreamed(input, opts);
+      return {
+        async *[Symbol.asyncIterator]() {
+          const snapshot = await begin();
+          try {
+            for await (const event of inner.runStreamed(input, opts)) {
+              if (event.type === 'done') {
+                const changes = await collect(snapshot);
+                yield {
+                  type: 'progress',
+                  provider: inner.provider,
+                  label: 'changes',
+                  detail: `${changes.files.length} file(s) changed`,
+                  ts: now(),
+                  originalItem: changes,
+                };
+              }
+              yield event;
+            }
+          } finally {
+            await release(snapshot);
+          }
+        },
+      };
+    },
+  });
+};
+
+function summarizeChanges(files: ChangedFile[]): RunChanges {
+  const pathsFor = (op: ChangedFile['op']) => files.filter(file => file.op === op).map(file => file.path);
+  return { created: pathsFor('create'), modified: pathsFor('modify'), deleted: pathsFor('delete'), files };
+}
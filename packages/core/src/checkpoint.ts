@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Workspace snapshots taken before each run, with diff and rollback helpers on the thread handle.
+ */
+
+import { randomUUID } from 'node:crypto';
+import * as path from 'node:path';
+import { decorateThread } from './decorate.js';
+import type { CoderDecoration, ThreadDecorator } from './decorate.js';
+import { createSnapshotStore } from './snapshot.js';
+import type { SnapshotStore } from './snapshot.js';
+import { now } from './types.js';
+import type { Checkpoint, CheckpointOptions, EventIterator, PromptInput } from './types.js';
+
+const DEFAULT_MAX_CHECKPOINTS = 20;
+
+/** Store holding each live checkpoint, keyed by checkpoint id so close() can discard them from any decorated handle. */
+const owners = new Map<string, SnapshotStore>();
+
+/**
+ * Coder hooks that discard a thread's checkpoints (shadow refs or snapshot copies) when `coder.close(thread)` runs.
+ * `thread.close()` discards them too.
+ */
+export const checkpointDecoration: CoderDecoration = {
+  onClose: async thread => {
+    for (const checkpoint of (await thread.listCheckpoints?.()) ?? []) {
+      const store = owners.get(checkpoint.id);
+      owners.delete(checkpoint.id);
+      await store?.discard(checkpoint.location).catch(() => {});
+    }
+  },
+};
+
+/**
+ * Thread decorator that snapshots StartOpts.workingDirectory before every run when StartOpts.checkpoint is set.
+ */
+export const checkpointDecorator: ThreadDecorator = async (inner, startOpts) => {
+  if (!startOpts.checkpoint) return inner;
+  const options: CheckpointOptions = startOpts.checkpoint === true ? {} : startOpts.checkpoint;
+  const cwd = path.resolve(startOpts.workingDirectory ?? process.cwd());
+  const store = await createSnapshotStore(cwd, options);
+  const maxCheckpoints = options.maxCheckpoints ?? DEFAULT_MAX_CHECKPOINTS;
+  const checkpoints: Checkpoint[] = [];
+
+  const discard = async (checkpoint: Checkpoint) => {
+    owners.delete(checkpoint.id);
+    await store.discard(checkpoint.location);
+  };
+
+  const take = async (input: PromptInput): Promise<Checkpoint> => {
+    const id = `cp-${Date.now().toString(36)}-${randomUUID().slice(0, 8)}`;
+    const checkpoint: Checkpoint = {
+      id,
+      strategy: store.strategy,
+      createdAt: now(),
+      location: await store.snapshot(id),
+      label: promptLabel(input),
+    };
+    checkpoints.push(checkpoint);
+    owners.set(id, store);
+    while (checkpoints.length > maxCheckpoints) {
+      await discard(checkpoints.shift()!);
+    }
+    return checkpoint;
+  };
+
+  const find = (checkpointId: string): Checkpoint => {
+    const checkpoint = checkpoints.find(candidate => candidate.id === checkpointId);
+    if (!checkpoint) throw new Error(`Unknown checkpoint "${checkpointId}".`);
+    return checkpoint;
+  };
+
+  return decorateThread(
+    inner,
+    {
+      run: async (input, opts) => {
+        const checkpoint = await take(input);
+        const result = await inner.run(input, opts);
+        return { ...result, checkpoint: { id: checkpoint.id, diff: await store.diff(checkpoint.location) } };
+      },
+      runStreamed: (input, opts): EventIterator => ({
+        async *[Symbol.asyncIterator]() {
+          const checkpoint = await take(input);
+          yield {
+            type: 'progress',
+            provider: inner.provider,
+            label: 'checkpoint',
+            detail: checkpoint.id,
+            ts: now(),
+            originalItem: checkpoint,
+          };
+          yield* inner.runStreamed(input, opts);
+        },
+      }),
+      close: async () => {
+        await inner.close?.();
+        for (const checkpoint of checkpoints.splice(0)) await discard(checkpoint).catch(() => {});
+      },
+    },
+    {
+      listCheckpoints: async () => checkpoints.map(checkpoint => ({ ...checkpoint })),
+      restore: async (checkpointId: string) => store.restore(find(checkpointId).location),
+      diffCheckpoint: async (checkpointId: string) => store.diff(find(checkpointId).location),
+    },
+  );
+};
+
+function promptLabel(input: PromptInput): string {
+  const text = typeof input === 'string' ? input : (input[input.length - 1]?.content ?? '');
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Reusable node:test suite that checks an adapter honours the HeadlessCoder contract.
+ *
+ * Import from `@headless-coder-sdk/core/conformance` inside a test file; it registers tests as a side effect.
+ */
+
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type {
+  AdapterFactory,
+  CoderStreamEvent,
+  HeadlessCoder,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Behaviour the fake backend must produce for the next turn the adapter issues.
+ *
+ * - `reply`: complete the turn normally with the supplied assistant text.
+ * - `stall`: keep the turn open (emitting nothing or only progress) until the adapter aborts it.
+ */
+export type ConformanceTurn = { kind: 'reply'; text: string } | { kind: 'stall' };
+
+/**
+ * Scripted stand-in for whatever the adapter talks to (SDK, CLI, HTTP API).
+ *
+ * The adapter under test must be wired to this backend, typically through `startOpts`
+ * (for example a binary path pointing at a fake CLI).
+ */
+export interface ConformanceBackend {
+  /** Queues the behaviour of the next turn. Called once before every run the suite issues. */
+  scriptTurn(turn: ConformanceTurn): void | Promise<void>;
+  /** Options passed to `startThread()` so the adapter reaches the fake backend. */
+  startOpts?: StartOpts;
+  setup?(): void | Promise<void>;
+  teardown?(): void | Promise<void>;
+}
+
+export interface ConformanceOptions {
+  factory: AdapterFactory;
+  backend: ConformanceBackend;
+  /** Suite label, defaults to the factory's `coderName`. */
+  name?: string;
+  /** Delay before the suite aborts a stalled turn. */
+  interruptAfterMs?: number;
+  /** Upper bound for any single check. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_INTERRUPT_AFTER_MS = 100;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Registers the adapter conformance checks with node:test.
+ *
+ * Checks: a single terminal `done` per streamed turn, `cancelled` followed by an `interrupted` error on abort,
+ * rejection of a second in-flight run per thread, and `handle.id` being populated after the first run.
+ */
+export function runConformanceSuite(options: ConformanceOptions): void {
+  const { factory, backend } = options;
+  const interruptAfterMs = options.interruptAfterMs ?? DEFAULT_INTERRUPT_AFTER_MS;
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const label = options.name ?? factory.coderName ?? 'adapter';
+
+  describe(`${label} conformance`, () => {
+    let coder: HeadlessCoder;
+
+    before(async () => {
+      await backend.setup?.();
+      coder = factory();
+    });
+
+    after(async () => {
+      await backend.teardown?.();
+    });
+
+    const startThread = () => coder.startThread(backend.startOpts);
+
+    test('populates handle.id after the first run', { timeout }, async () => {
+      const thread = await startThread();
+      await backend.scriptTurn({ kind: 'reply', text: 'conformance reply' });
+      const result = await thread.run('Say "conformance reply".');
+      assertRunResult(result);
+      assert.ok(thread.id, 'handle.id should be set once the first run completes');
+      assert.equal(coder.getThreadId(thread), thread.id, 'getThreadId() should match handle.id');
+      if (result.threadId !== undefined) {
+        assert.equal(result.threadId, thread.id, 'RunResult.threadId should match handle.id');
+      }
+      await coder.close?.(thread);
+    });
+
+    test('emits exactly one terminal done per streamed turn', { timeout }, async () => {
+      const thread = await startThread();
+      await backend.scriptTurn({ kind: 'reply', text: 'streamed reply' });
+      const events = await collect(thread.runStreamed('Say "streamed reply".'));
+      assertWellFormed(events, thread);
+      const doneCount = events.filter(event => event.type === 'done').length;
+      assert.equal(doneCount, 1, 'expected exactly one done event');
+      assert.equal(events[events.length - 1].type, 'done', 'done must be the final event');
+      assert.ok(!events.some(event => event.type === 'cancelled'), 'completed turns must not emit cancelled');
+      await coder.close?.(thread);
+    });
+
+    test('emits cancelled and an interrupted error when a stream is aborted', { timeout }, async () => {
+      const thread = await startThread();
+      await backend.scriptTurn({ kind: 'stall' });
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort('conformance abort'), interruptAfterMs);
+      let events: CoderStreamEvent[];
+      try {
+        events = await collect(thread.runStreamed('Stall until aborted.', { signal: controller.signal }));
+      } finally {
+        clearTimeout(timer);
+      }
+      assertWellFormed(events, thread);
+      const cancelledIndex = events.findIndex(event => event.type === 'cancelled');
+      const errorIndex = events.findIndex(event => event.type === 'error' && event.code === 'interrupted');
+      assert.notEqual(cancelledIndex, -1, 'expected a cancelled event');
+      assert.notEqual(errorIndex, -1, "expected an error event with code 'interrupted'");
+      assert.ok(cancelledIndex < errorIndex, 'cancelled should precede the interrupted error');
+      assert.ok(!events.some(event => event.type === 'done'), 'aborted turns must not emit done');
+      await coder.close?.(thread);
+    });
+
+    test('rejects run() with an interrupted error on interrupt()', { timeout }, async () => {
+      const thread = await startThread();
+      await backend.scriptTurn({ kind: 'stall' });
+      const pending = thread.run('Stall until interrupted.');
+      const timer = setTimeout(() => void thread.interrupt?.('conformance interrupt'), interruptAfterMs);
+      try {
+        await assert.rejects(pending, (error: any) => error?.code === 'interrupted');
+      } finally {
+        clearTimeout(timer);
+      }
+      await coder.close?.(thread);
+    });
+
+    test('rejects a second in-flight run on the same thread', { timeout }, async () => {
+      const thread = await startThread();
+      await backend.scriptTurn({ kind: 'stall' });
+      const first = thread.run('Stall while a second run is attempted.');
+      first.catch(() => {});
+      await assert.rejects(
+        async () => thread.run('Second run.'),
+        (error: any) => error?.code === 'busy',
+        "a busy thread must reject new runs with code 'busy'",
+      );
+      await thread.interrupt?.('conformance cleanup');
+      await assert.rejects(first, (error: any) => error?.code === 'interrupted');
+      await coder.close?.(thread);
+    });
+  });
+}
+
+async function collect(iterable: AsyncIterable<CoderStreamEvent>): Promise<CoderStreamEvent[]> {
+  const events: CoderStreamEvent[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+  }
+  return events;
+}
+
+function assertRunResult(result: RunResult): void {
+  assert.ok(result && typeof result === 'object', 'run() must resolve to a RunResult object');
+  assert.ok(result.text !== undefined || result.json !== undefined, 'RunResult should carry text or json');
+}
+
+function assertWellFormed(events: CoderStreamEvent[], thread: ThreadHandle): void {
+  for (const event of events) {
+    assert.equal(event.provider, thread.provider, `event ${event.type} reported an unexpected provider`);
+    assert.equal(typeof event.ts, 'number', `event ${event.type} must carry a numeric ts`);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Run timeouts, stall detection and tool-call heartbeats shared by the adapters.
+ */
+
+import { IdleTimeoutError, TimeoutError } from './errors.js';
+import type { HeadlessCoderError } from './errors.js';
+import { now } from './types.js';
+import type { CoderStreamEvent, EventIterator, Provider, RunOpts } from './types.js';
+
+const DEFAULT_HEARTBEAT_MS = 15_000;
+
+/**
+ * Tracks RunOpts.timeoutMs and RunOpts.idleTimeoutMs for a single run.
+ */
+export interface RunDeadline {
+  /** The timeout that fired, if any; adapters report it instead of a plain interrupt. */
+  readonly expired: HeadlessCoderError | undefined;
+  /** Records provider activity, restarting the idle timer. */
+  touch(): void;
+  /** Clears both timers; call when the run settles. */
+  dispose(): void;
+}
+
+/**
+ * Arms the total and idle timers for a run. When one fires, `onExpire` receives a TimeoutError or
+ * IdleTimeoutError and should abort the run through the adapter's normal interrupt path.
+ */
+export function createRunDeadline(
+  opts: Pick<RunOpts, 'timeoutMs' | 'idleTimeoutMs'> | undefined,
+  onExpire: (error: HeadlessCoderError) => void,
+  provider?: Provider,
+): RunDeadline {
+  const timeoutMs = opts?.timeoutMs;
+  const idleTimeoutMs = opts?.idleTimeoutMs;
+  let expired: HeadlessCoderError | undefined;
+  let totalTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const dispose = () => {
+    clearTimeout(totalTimer);
+    clearTimeout(idleTimer);
+  };
+  const expire = (error: HeadlessCoderError) => {
+    if (expired) return;
+    expired = error;
+    dispose();
+    onExpire(error);
+  };
+  const touch = () => {
+    if (expired || !(idleTimeoutMs && idleTimeoutMs > 0)) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(
+      () => expire(new IdleTimeoutError(`No provider activity for ${idleTimeoutMs}ms.`, { provider })),
+      idleTimeoutMs,
+    );
+  };
+
+  if (timeoutMs && timeoutMs > 0) {
+    totalTimer = setTimeout(
+      () => expire(new TimeoutError(`Run exceeded its ${timeoutMs}ms timeout.`, { provider })),
+      timeoutMs,
+    );
+  }
+  touch();
+
+  return {
+    get expired() {
+      return expired;
+    },
+    touch,
+    dispose,
+  };
+}
+
+/**
+ * Wraps an adapter stream so a `progress` event labelled `heartbeat` is emitted every `intervalMs`
+ * (RunOpts.heartbeatMs, default 15s; `0` disables) while a `tool_use` has no matching `tool_result` yet.
+ *
+ * `onAbandon` runs when the consumer stops iterating while the adapter is still waiting on its provider,
+ * so the adapter can stop the underlying run.
+ */
+export function withHeartbeat(
+  events: EventIterator,
+  options: { provider: Provider; intervalMs?: number; onAbandon?: () => void },
+): EventIterator {
+  const intervalMs = options.intervalMs ?? DEFAULT_HEARTBEAT_MS;
+  if (!(intervalMs > 0)) return events;
+  return {
+    async *[Symbol.asyncIterator]() {
+      const iterator = events[Symbol.asyncIterator]();
+      const running = new Map<string, { name: string; startedAt: number }>();
+      let pending: Promise<IteratorResult<CoderStreamEvent>> | undefined;
+      let finished = false;
+      try {
+        while (true) {
+          pending ??= iterator.next();
+          let timer: ReturnType<typeof setTimeout> | undefined;
+          const tick = running.size
+            ? new Promise<'tick'>(resolve => {
+                timer = setTimeout(() => resolve('tick'), intervalMs);
+              })
+            : undefined;
+          const next = tick ? await Promise.race([pending, tick]) : await pending;
+          clearTimeout(timer);
+          if (next === 'tick') {
+            for (const [callId, tool] of running) {
+              const elapsedMs = Date.now() - tool.startedAt;
+              yield {
+                type: 'progress',
+                provider: options.provider,
+                label: 'heartbeat',
+                detail: `${tool.name} running for ${Math.round(elapsedMs / 1000)}s`,
+                ts: now(),
+                originalItem: { callId, name: tool.name, elapsedMs },
+              };
+            }
+            continue;
+          }
+          pending = undefined;
+          if (next.done) {
+            finished = true;
+            return;
+          }
+          const event = next.value;
+          if (event.type === 'tool_use') {
+            running.set(event.callId ?? `tool-${running.size}`, { name: event.name, startedAt: Date.now() });
+          } else if (event.type === 'tool_result') {
+            running.delete(event.callId ?? running.keys().next().value ?? '');
+          } else if (event.type === 'done' || event.type === 'cancelled') {
+            running.clear();
+          }
+          yield event;
+        }
+      } finally {
+        if (!finished) {
+          if (pending) {
+            // The adapter is parked on its provider; returning now would wait for the next provider event. Nobody
+            // awaits the parked next() any more, so its eventual rejection must not surface as unhandled.
+            pending.catch(() => {});
+            options.onAbandon?.();
+            void iterator.return?.().catch(() => {});
+          } else {
+            await iterator.return?.();
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Internal helpers for layering behaviour on top of adapter thread handles.
+ *
+ * Decorated handles forward identity (`provider`, `internal`, `id`) to the wrapped handle so adapter methods such as
+ * `getThreadId()` keep working, and decorated coders unwrap handles before delegating back to the adapter.
+ */
+
+import type { EventIterator, HeadlessCoder, PromptInput, RunOpts, RunResult, StartOpts, ThreadHandle } from './types.js';
+
+export interface ThreadOverrides {
+  run?(input: PromptInput, opts?: RunOpts): Promise<RunResult>;
+  runStreamed?(input: PromptInput, opts?: RunOpts): EventIterator;
+  interrupt?(reason?: string): Promise<void>;
+  close?(): Promise<void>;
+}
+
+const HANDLE_KEYS = new Set(['provider', 'internal', 'id', 'run', 'runStreamed', 'interrupt', 'close']);
+
+/**
+ * Builds a handle that delegates to `inner` unless an override is supplied.
+ *
+ * Extra members (for example `listCheckpoints`) are copied onto the returned handle, and extras added by
+ * inner decorators stay reachable from the outer handle.
+ */
+export function decorateThread<T extends object = {}>(
+  inner: ThreadHandle,
+  overrides: ThreadOverrides,
+  extras?: T,
+): ThreadHandle & T {
+  const handle = {
+    get provider() {
+      return inner.provider;
+    },
+    get internal() {
+      return inner.internal;
+    },
+    get id() {
+      return inner.id;
+    },
+    set id(value: string | undefined) {
+      inner.id = value;
+    },
+    run: overrides.run ?? ((input: PromptInput, opts?: RunOpts) => inner.run(input, opts)),
+    runStreamed: overrides.runStreamed ?? ((input: PromptInput, opts?: RunOpts) => inner.runStreamed(input, opts)),
+    interrupt: overrides.interrupt ?? (inner.interrupt ? (reason?: string) => inner.interrupt!(reason) : undefined),
+    close: overrides.close ?? (inner.close ? () => inner.close!() : undefined),
+  };
+  for (const key of Object.keys(inner)) {
+    if (HANDLE_KEYS.has(key) || (extras && key in extras)) continue;
+    Object.defineProperty(handle, key, {
+      enumerable: true,
+      get: () => {
+        const value = (inner as any)[key];
+        return typeof value === 'function' ? value.bind(inner) : value;
+      },
+    });
+  }
+  return Object.defineProperties(handle, Object.getOwnPropertyDescriptors(extras ?? {})) as ThreadHandle & T;
+}
+
+export type ThreadDecorator = (thread: ThreadHandle, startOpts: StartOpts) => ThreadHandle | Promise<ThreadHandle>;
+
+/**
+ * Chains decorators so the first one wraps the adapter handle and the last one is outermost.
+ */
+export function composeDecorators(decorators: ThreadDecorator[]): ThreadDecorator {
+  return async (thread, startOpts) => {
+    let current = thread;
+    for (const decorate of decorators) {
+      current = await decorate(current, startOpts);
+    }
+    return current;
+  };
+}
+
+export interface CoderDecoration {
+  /** Runs before the adapter creates or resumes a thread; may rewrite the start options. */
+  prepareStart?(opts: StartOpts): StartOpts | Promise<StartOpts>;
+  /** Runs after the adapter's own close for the thread. */
+  onClose?(thread: ThreadHandle): Promise<void>;
+  /** Runs when starting or resuming fails after prepareStart(), with the options it returned. */
+  onStartFailed?(opts: StartOpts): Promise<void>;
+}
+
+/**
+ * Wraps every thread a coder creates with `decorate`, keeping `getThreadId()`/`close()` pointed at the original.
+ */
+export function decorateCoder(
+  coder: HeadlessCoder,
+  defaults: StartOpts | undefined,
+  decorate: ThreadDecorator,
+  decoration: CoderDecoration = {},
+): HeadlessCoder {
+  const originals = new WeakMap<ThreadHandle, ThreadHandle>();
+  const unwrap = (thread: ThreadHandle): ThreadHandle => originals.get(thread) ?? thread;
+
+  const wrap = async (create: (opts: StartOpts) => Promise<ThreadHandle>, opts?: StartOpts) => {
+    const prepared = decoration.prepareStart
+      ? await decoration.prepareStart({ ...defaults, ...opts })
+      : { ...defaults, ...opts };
+    let inner: ThreadHandle | undefined;
+    try {
+      inner = await create(prepared);
+      const outer = await decorate(inner, prepared);
+      if (outer !== inner) {
+        originals.set(outer, inner);
+      }
+      return outer;
+    } catch (error) {
+      if (inner) await coder.close?.(inner).catch(() => {});
+      await decoration.onStartFailed?.(prepared).catch(() => {});
+      throw error;
+    }
+  };
+
+  return {
+    startThread: opts => wrap(prepared => coder.startThread(prepared), opts),
+    resumeThread: (threadId, opts) => wrap(prepared => coder.resumeThread(threadId, prepared), opts),
+    getThreadId: thread => coder.getThreadId(unwrap(thread)),
+    close: async thread => {
+      await coder.close?.(unwrap(thread));
+      await decoration.onClose?.(thread);
+    },
+  };
+}
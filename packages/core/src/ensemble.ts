@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Best-of-N orchestration: runs several candidate threads and lets a judge thread pick or merge them.
+ */
+
+import { runStructured } from './structured.js';
+import { mergeUsage } from './usage.js';
+import type {
+  HeadlessCoder,
+  PromptInput,
+  Provider,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  UsageStats,
+} from './types.js';
+
+/**
+ * A coder taking part in an ensemble, optionally with its own start options (model, isolation, ...).
+ */
+export interface EnsembleMember {
+  coder: HeadlessCoder;
+  /** Merged over EnsembleOptions.startOpts for this member. */
+  startOpts?: StartOpts;
+}
+
+/**
+ * Candidate output as presented to the judge.
+ */
+export interface JudgeCandidate {
+  /** 1-based number the judge refers to in its verdict. */
+  number: number;
+  provider: Provider;
+  result: RunResult;
+  /** Working directory changes, from `RunResult.changes` or the worktree diff when available. */
+  patch?: string;
+}
+
+/**
+ * Structured verdict returned by the judge thread.
+ */
+export interface JudgeVerdict {
+  /** Candidate numbers, best first. */
+  ranking: number[];
+  rationale: string;
+  /** Combined answer, requested when `mode` is `merge`. */
+  merged?: string;
+}
+
+export interface EnsembleOptions extends RunOpts {
+  /** Coder that evaluates the candidates. */
+  judge: HeadlessCoder | EnsembleMember;
+  /** Start options shared by every candidate thread, e.g. `{ isolation: 'worktree' }`. */
+  startOpts?: StartOpts;
+  /** `rank` picks the best candidate; `merge` also asks the judge for a combined answer. Defaults to `rank`. */
+  mode?: 'rank' | 'merge';
+  /** Builds the judge prompt; defaults to the task, each candidate's answer and patch, and ranking instructions. */
+  judgePrompt?: (input: PromptInput, candidates: JudgeCandidate[], mode: 'rank' | 'merge') => PromptInput;
+  /** Run options for the judge turn. Candidate run options are not forwarded to the judge. */
+  judgeOpts?: Omit<RunOpts, 'outputSchema'>;
+  /** Keeps the chosen candidate's thread open (for example to `merge()` its worktree) as `chosen.thread`. */
+  keepChosen?: boolean;
+}
+
+/**
+ * Outcome of one candidate thread.
+ */
+export interface EnsembleCandidateResult {
+  /** Position of the member in the `members` array. */
+  index: number;
+  provider?: Provider;
+  result?: RunResult;
+  error?: unknown;
+  /** Set on the chosen candidate when `keepChosen` is set. */
+  thread?: ThreadHandle;
+}
+
+export interface EnsembleResult {
+  chosen: EnsembleCandidateResult & { result: RunResult; provider: Provider };
+  rationale: string;
+  /** Member indexes ordered best first; failed candidates are not ranked. */
+  ranking: number[];
+  /** The judge's combined answer in `merge` mode. */
+  merged?: string;
+  candidates: EnsembleCandidateResult[];
+  /** The judge's run; absent when only one candidate succeeded and no judgement was needed. */
+  judge?: RunResult<JudgeVerdict>;
+  /** Usage summed across the candidates and the judge. */
+  totalUsage?: UsageStats;
+}
+
+interface Entry {
+  member: EnsembleMember;
+  report: EnsembleCandidateResult;
+  thread?: ThreadHandle;
+}
+
+/**
+ * Runs `input` on a fresh thread for every member in parallel, then asks the judge (with `outputSchema`) to rank
+ * the successful candidates, or to merge them in `merge` mode.
+ *
+ * Candidate threads are closed once judged unless `keepChosen` is set.
+ *
+ * @throws AggregateError when every candidate fails, or the judge's SchemaViolationError when its verdict does
+ * not conform.
+ */
+export async function ensemble(
+  members: (HeadlessCoder | EnsembleMember)[],
+  input: PromptInput,
+  opts: EnsembleOptions,
+): Promise<EnsembleResult> {
+  if (!members.length) {
+    throw new Error('ensemble() requires at least one candidate.');
+  }
+  const { judge, startOpts, mode = 'rank', judgePrompt = buildJudgePrompt, judgeOpts, keepChosen, ...runOpts } = opts;
+
+  const entries: Entry[] = members.map((member, index) => ({ member: toMember(member), report: { index } }));
+  let chosen: Entry | undefined;
+  try {
+    await Promise.all(
+      entries.map(async entry => {
+        try {
+          entry.thread = await entry.member.coder.startThread({ ...startOpts, ...entry.member.startOpts });
+          entry.report.provider = entry.thread.provider;
+          entry.report.result = await entry.thread.run(input, runOpts);
+        } catch (error) {
+          entry.report.error = error;
+        }
+      }),
+    );
+
+    const succeeded = entries.filter(entry => entry.report.result);
+    if (!succeeded.length) {
+      throw new AggregateError(
+        entries.map(entry => entry.report.error),
+        'Every ensemble candidate failed.',
+      );
+    }
+
+    let verdict: JudgeVerdict = { ranking: [1], rationale: 'Only one candidate succeeded.' };
+    let judged: RunResult<JudgeVerdict> | undefined;
+    if (succeeded.length > 1 || mode === 'merge') {
+      const candidates = await Promise.all(
+        succeeded.map(async (entry, position) => ({
+          number: position + 1,
+          provider: entry.report.provider!,
+          result: entry.report.result!,
+          patch: await describePatch(entry),
+        })),
+      );
+      const judgeMember = toMember(judge);
+      const judgeThread = await judgeMember.coder.startThread(judgeMember.startOpts);
+      try {
+        judged = (await runStructured(
+          judgeThread,
+          judgePrompt(input, candidates, mode),
+          verdictSchema(succeeded.length, mode),
+          judgeOpts,
+        )) as RunResult<JudgeVerdict>;
+      } finally {
+        await judgeMember.coder.close?.(judgeThread).catch(() => {});
+      }
+      verdict = judged.json!;
+    }
+
+    const ranking = [...new Set(verdict.ranking)].map(number => succeeded[number - 1].report.index);
+    chosen = entries[ranking[0]];
+    if (keepChosen) chosen.report.thread = chosen.thread;
+
+    const reports = entries.map(entry => entry.report);
+    const totalUsage = [...reports.map(report => report.result?.usage), judged?.usage].reduce<UsageStats | undefined>(
+      (sum, usage) => mergeUsage(sum, usage),
+      undefined,
+    );
+    return {
+      chosen: chosen.report as EnsembleResult['chosen'],
+      rationale: verdict.rationale,
+      ranking,
+      merged: verdict.merged,
+      candidates: reports,
+      judge: judged,
+      totalUsage,
+    };
+  } finally {
+    await Promise.all(
+      entries
+        .filter(entry => entry.thread && !(keepChosen && entry === chosen))
+        .map(entry => entry.member.coder.close?.(entry.thread!).catch(() => {})),
+    );
+  }
+}
+
+function toMember(member: HeadlessCoder | EnsembleMember): EnsembleMember {
+  return 'coder' in member ? member : { coder: member };
+}
+
+async function describePatch(entry: Entry): Promise<string | undefined> {
+  const changes = entry.report.result?.changes;
+  if (changes) return changes.files.map(file => file.patch).join('');
+  return entry.thread?.diff ? await entry.thread.diff().catch(() => undefined) : undefined;
+}
+
+function verdictSchema(count: number, mode: 'rank' | 'merge'): object {
+  return {
+    type: 'object',
+    properties: {
+      ranking: { type: 'array', items: { type: 'integer', minimum: 1, maximum: count }, minItems: 1 },
+      rationale: { type: 'string' },
+      ...(mode === 'merge' ? { merged: { type: 'string' } } : {}),
+    },
+    required: mode === 'merge' ? ['ranking', 'rationale', 'merged'] : ['ranking', 'rationale'],
+  };
+}
+
+function buildJudgePrompt(input: PromptInput, candidates: JudgeCandidate[], mode: 'rank' | 'merge'): string {
+  const task =
+    typeof input === 'string' ? input : input.map(message => `${message.role}: ${message.content}`).join('\n');
+  const sections = candidates.map(candidate => {
+    const answer = candidate.result.json !== undefined ? JSON.stringify(candidate.result.json) : candidate.result.text;
+    const lines = [`## Candidate ${candidate.number} (${candidate.provider})`, answer?.trim() || '(no answer)'];
+    if (candidate.patch) lines.push('', 'Changes:', '```diff', candidate.patch.trimEnd(), '```');
+    return lines.join('\n');
+  });
+  const instruction =
+    mode === 'merge'
+      ? 'Rank the candidates from best to worst, explain why in `rationale`, and write the best combined answer in `merged`.'
+      : 'Rank the candidates from best to worst by candidate number and explain the choice in `rationale`.';
+  return [
+    'Several agents were given the same task. Judge their answers.',
+    '',
+    '# Task',
+    task,
+    '',
+    ...sections,
+    '',
+    `${instruction} Respond with JSON only.`,
+  ].join('\n');
+}
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Typed error taxonomy shared by the core runtime and every adapter.
+ *
+ * Adapters translate provider failures into these classes, and stream `error` events carry the same `code`,
+ * so callers can branch on failures without parsing provider-specific messages.
+ */
+
+import type { BudgetViolation } from './budget.js';
+import type { Provider, RunResult } from './types.js';
+
+/**
+ * Stable failure codes used by HeadlessCoderError and by `error` stream events.
+ */
+export type HeadlessCoderErrorCode =
+  | 'busy'
+  | 'interrupted'
+  | 'auth'
+  | 'rate_limited'
+  | 'binary_not_found'
+  | 'schema_violation'
+  | 'provider_failure'
+  | 'timeout'
+  | 'idle_timeout'
+  | 'budget_exceeded'
+  | 'merge_conflict';
+
+export const HEADLESS_CODER_ERROR_CODES: readonly HeadlessCoderErrorCode[] = [
+  'busy',
+  'interrupted',
+  'auth',
+  'rate_limited',
+  'binary_not_found',
+  'schema_violation',
+  'provider_failure',
+  'timeout',
+  'idle_timeout',
+  'budget_exceeded',
+  'merge_conflict',
+];
+
+export interface HeadlessCoderErrorOptions {
+  provider?: Provider;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failures surfaced by headless coders.
+ */
+export class HeadlessCoderError extends Error {
+  readonly code: HeadlessCoderErrorCode;
+  readonly provider?: Provider;
+
+  constructor(code: HeadlessCoderErrorCode, message: string, options: HeadlessCoderErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = 'HeadlessCoderError';
+    this.code = code;
+    this.provider = options.provider;
+  }
+}
+
+/** A run was started while another run on the same thread was still in flight. */
+export class BusyError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('busy', message, options);
+    this.name = 'BusyError';
+  }
+}
+
+/**
+ * The run was cancelled through `interrupt()` or an AbortSignal.
+ *
+ * Keeps the `AbortError` name so existing `error.name === 'AbortError'` checks continue to match.
+ */
+export class InterruptedError extends HeadlessCoderError {
+  constructor(message = 'Operation was interrupted', options?: HeadlessCoderErrorOptions) {
+    super('interrupted', message, options);
+    this.name = 'AbortError';
+  }
+}
+
+/** The provider rejected the credentials, or the CLI is not logged in. */
+export class AuthError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** The provider throttled the request or the account ran out of quota. */
+export class RateLimitError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('rate_limited', message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The provider CLI could not be spawned because its executable was not found. */
+export class BinaryNotFoundError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('binary_not_found', message, options);
+    this.name = 'BinaryNotFoundError';
+  }
+}
+
+/** Structured output did not match the requested schema. */
+export class SchemaViolationError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('schema_violation', message, options);
+    this.name = 'SchemaViolationError';
+  }
+}
+
+/** The provider failed for a reason not covered by a more specific code. */
+export class ProviderFailureError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('provider_failure', message, options);
+    this.name = 'ProviderFailureError';
+  }
+}
+
+/** The run or the provider connection exceeded its time limit. */
+export class TimeoutError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The provider went silent for longer than RunOpts.idleTimeoutMs. */
+export class IdleTimeoutError extends HeadlessCoderError {
+  constructor(message: string, options?: HeadlessCoderErrorOptions) {
+    super('idle_timeout', message, options);
+    this.name = 'IdleTimeoutError';
+  }
+}
+
+/** The run crossed a RunOpts.budget limit and was interrupted. */
+export class BudgetExceededError extends HeadlessCoderError {
+  /** The limit that was crossed. */
+  readonly budget?: BudgetViolation;
+  /** What the run produced before it was stopped, when it got as far as a result. */
+  readonly result?: RunResult;
+
+  constructor(
+    message: string,
+    options: HeadlessCoderErrorOptions & { budget?: BudgetViolation; result?: RunResult } = {},
+  ) {
+    super('budget_exceeded', message, options);
+    this.name = 'BudgetExceededError';
+    this.budget = options.budget;
+    this.result = options.result;
+  }
+}
+
+/** Merging a worktree branch stopped on conflicting changes; the merge was aborted. */
+export class MergeConflictError extends HeadlessCoderError {
+  /** Repository-relative paths git could not merge. */
+  readonly conflicts: string[];
+
+  constructor(message: string, options: HeadlessCoderErrorOptions & { conflicts?: string[] } = {}) {
+    super('merge_conflict', message, options);
+    this.name = 'MergeConflictError';
+    this.conflicts = options.conflicts ?? [];
+  }
+}
+
+const ERROR_CLASSES: Record<
+  HeadlessCoderErrorCode,
+  new (message: string, options?: HeadlessCoderErrorOptions) => HeadlessCoderError
+> = {
+  busy: BusyError,
+  interrupted: InterruptedError,
+  auth: AuthError,
+  rate_limited: RateLimitError,
+  binary_not_found: BinaryNotFoundError,
+  schema_violation: SchemaViolationError,
+  provider_failure: ProviderFailureError,
+  timeout: TimeoutError,
+  idle_timeout: IdleTimeoutError,
+  budget_exceeded: BudgetExceededError,
+  merge_conflict: MergeConflictError,
+};
+
+const AUTH_PATTERN =
+  /\b401\b|unauthori[sz]ed|authenticat|invalid[ _-]?(x-)?api[ _-]?key|api[ _-]?key (is )?(missing|invalid|not (set|found))|not logged in|please (log ?in|login)|login required/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|\b429\b|quota|resource.?exhausted/i;
+const TIMEOUT_PATTERN = /timed? ?out|ETIMEDOUT|deadline exceeded/i;
+const BINARY_NOT_FOUND_PATTERN = /spawn \S+ ENOENT|command not found|executable not found/i;
+
+/**
+ * Returns true for HeadlessCoderError instances, optionally with a specific code.
+ *
+ * Errors from another copy of the core package (ESM and CJS builds side by side) are recognised by their code.
+ */
+export function isHeadlessCoderError(error: unknown, code?: HeadlessCoderErrorCode): error is HeadlessCoderError {
+  if (!(error instanceof Error)) return false;
+  const actual = (error as any).code;
+  const recognised = error instanceof HeadlessCoderError || HEADLESS_CODER_ERROR_CODES.includes(actual);
+  return recognised && (code === undefined || actual === code);
+}
+
+/**
+ * Classifies an arbitrary provider failure (error object or message) into a taxonomy code.
+ */
+export function classifyError(error: unknown): HeadlessCoderErrorCode {
+  if (isHeadlessCoderError(error)) return error.code;
+  if (error instanceof Error && error.name === 'AbortError') return 'interrupted';
+  const code = typeof (error as any)?.code === 'string' ? (error as any).code : '';
+  if (code === 'ENOENT' && String((error as any).syscall ?? '').startsWith('spawn')) return 'binary_not_found';
+  const message = error instanceof Error ? error.message : String((error as any)?.message ?? error ?? '');
+  const text = `${code} ${message}`;
+  if (BINARY_NOT_FOUND_PATTERN.test(text)) return 'binary_not_found';
+  if (AUTH_PATTERN.test(text)) return 'auth';
+  if (RATE_LIMIT_PATTERN.test(text)) return 'rate_limited';
+  if (TIMEOUT_PATTERN.test(text)) return 'timeout';
+  return 'provider_failure';
+}
+
+/**
+ * Wraps a provider failure in the matching HeadlessCoderError subclass, keeping the original as `cause`.
+ *
+ * HeadlessCoderErrors are returned unchanged.
+ */
+export function toHeadlessCoderError(error: unknown, provider?: Provider): HeadlessCoderError {
+  if (error instanceof HeadlessCoderError) return error;
+  if (typeof error === 'string') return createHeadlessCoderError(classifyError(error), error, { provider });
+  const message = error instanceof Error ? error.message : String((error as any)?.message ?? error);
+  return createHeadlessCoderError(classifyError(error), message, { provider, cause: error });
+}
+
+/**
+ * Instantiates the HeadlessCoderError subclass registered for `code`.
+ */
+export function createHeadlessCoderError(
+  code: HeadlessCoderErrorCode,
+  message: string,
+  options?: HeadlessCoderErrorOptions,
+): HeadlessCoderError {
+  return new ERROR_CLASSES[code](message, options);
+}
@@ -2,10 +2,42 @@
  * @fileoverview Adapter registry utilities for headless-coder-sdk.
  */
 
+import { composeDecorators, decorateCoder, decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import { middlewareDecorator } from './middleware.js';
+import type { CoderMiddleware } from './middleware.js';
+import { budgetDecorator } from './budget.js';
+import { changesDecorator } from './changes.js';
+import { checkpointDecoration, checkpointDecorator } from './checkpoint.js';
+import { retryDecorator } from './retry.js';
+import type { Scheduler } from './scheduler.js';
+import { promptReportDecorator } from './template.js';
+import { transcriptDecorator } from './transcript.js';
+import type { TranscriptErrorHandler, TranscriptStore } from './transcript.js';
+import { validationDecorator } from './validation.js';
+import { worktreeDecoration, worktreeDecorator } from './worktree.js';
 import type { AdapterFactory, AdapterName, HeadlessCoder, StartOpts } from './types.js';
 
+/**
+ * Extra behaviour layered on top of the adapter by createCoder().
+ */
+export interface CreateCoderOptions {
+  /** Interceptors applied to every run/runStreamed call, in declaration order. */
+  middleware?: CoderMiddleware[];
+  /** Queues runs and caps concurrency; share one scheduler across coders to apply a global limit. */
+  scheduler?: Scheduler;
+  /** Records every input, event and result of the coder's threads. */
+  transcripts?: TranscriptStore;
+  /** Receives transcript store failures; by default the first one is emitted as a process warning. */
+  onTranscriptError?: TranscriptErrorHandler;
+}
+
 const registry = new Map<AdapterName, AdapterFactory>();
 
+// Exposes StartOpts.workingDirectory on the handle so handoff() can start the next thread in the same place.
+const workingDirectoryDecorator: ThreadDecorator = (inner, startOpts) =>
+  startOpts.workingDirectory ? decorateThread(inner, {}, { workingDirectory: startOpts.workingDirectory }) : inner;
+
 /**
  * Registers an adapter factory discovered from the factory's `coderName` property.
  *
@@ -26,6 +58,13 @@ export function unregisterAdapter(name: AdapterName): void {
   registry.delete(name);
 }
 
+/**
+ * Returns the names of every registered adapter, in registration order.
+ */
+export function getRegisteredAdapters(): AdapterName[] {
+  return [...registry.keys()];
+}
+
 /**
  * Removes all registered adapters (primarily useful in tests).
  */
@@ -36,14 +75,49 @@ export function clearRegisteredAdapters(): void {
 /**
  * Creates a headless coder instance using a registered adapter factory.
  *
+ * Threads are wrapped with the SDK's generic run behaviour (worktree isolation, retry policies, output
+ * validation, budgets, checkpoints, change reports, prompt reports) plus any supplied middleware, transcript store
+ * and scheduler.
+ *
  * @throws When no adapter is registered under the supplied name.
  */
-export function createCoder(name: AdapterName, defaults?: StartOpts): HeadlessCoder {
+export function createCoder(name: AdapterName, defaults?: StartOpts, options?: CreateCoderOptions): HeadlessCoder {
   const factory = registry.get(name);
   if (!factory) {
     throw new Error(`Adapter "${name}" not registered. Did you forget registerAdapter()?`);
   }
-  return factory(defaults);
+  const decorators: ThreadDecorator[] = [
+    workingDirectoryDecorator,
+    worktreeDecorator,
+    retryDecorator,
+    validationDecorator,
+    budgetDecorator,
+    checkpointDecorator,
+    // Outside retries and repair turns, so the report covers everything the run changed.
+    changesDecorator,
+    promptReportDecorator,
+  ];
+  if (options?.middleware?.length) {
+    decorators.push(middlewareDecorator(options.middleware));
+  }
+  if (options?.transcripts) {
+    // Outside middleware, so the transcript shows what callers sent and received.
+    decorators.push(transcriptDecorator(options.transcripts, options.onTranscriptError));
+  }
+  const scheduler = options?.scheduler;
+  if (scheduler) {
+    // Outermost, so time spent queued never counts against timeouts, budgets or middleware.
+    decorators.push(thread => scheduler.schedule(thread));
+  }
+  return decorateCoder(factory(defaults), defaults, composeDecorators(decorators), {
+    prepareStart: worktreeDecoration.prepareStart,
+    onStartFailed: worktreeDecoration.onStartFailed,
+    onClose: async thread => {
+      // Checkpoint refs are deleted through the thread's checkout, so they go before the worktree is removed.
+      await checkpointDecoration.onClose!(thread);
+      await worktreeDecoration.onClose!(thread);
+    },
+  });
 }
 
 /**
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Composite coder that fails over across providers in priority order.
+ */
+
+import { classifyError } from './errors.js';
+import type { HeadlessCoderErrorCode } from './errors.js';
+import { createCoder } from './factory.js';
+import type { CreateCoderOptions } from './factory.js';
+import { now } from './types.js';
+import type {
+  AdapterName,
+  CoderStreamEvent,
+  EventIterator,
+  HeadlessCoder,
+  PromptInput,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+type ConversationMessage = Exclude<PromptInput, string>[number];
+
+/** Failures another provider can plausibly recover from; the default `shouldFallback` fails over on these only. */
+const FAILOVER_CODES = new Set<HeadlessCoderErrorCode>([
+  'provider_failure',
+  'auth',
+  'rate_limited',
+  'binary_not_found',
+]);
+
+/**
+ * Failures that never move a thread, whatever `shouldFallback` says: a busy thread still has a run in flight, and
+ * re-issuing an over-budget run elsewhere would sidestep the budget.
+ */
+const NEVER_FAILOVER_CODES = new Set<HeadlessCoderErrorCode>(['interrupted', 'busy', 'budget_exceeded']);
+
+export interface FallbackOptions {
+  /** Start options merged over `defaults` for a specific provider (e.g. provider-specific models). */
+  perProvider?: Partial<Record<AdapterName, StartOpts>>;
+  /** Options forwarded to every createCoder() call (middleware, etc.). */
+  coderOptions?: CreateCoderOptions;
+  /**
+   * Decides whether a failure should move the thread to the next provider. Defaults to provider failures, auth errors,
+   * rate limits and missing binaries. Interrupts, busy threads and exceeded budgets never fail over.
+   */
+  shouldFallback?: (error: unknown, provider: AdapterName) => boolean;
+  /** Replays the conversation so far when switching providers mid-thread. Defaults to true; false keeps no history. */
+  replayConversation?: boolean;
+  /**
+   * When `resumeThread()` cannot resume on the first provider, start a fresh thread on the next one instead of
+   * rejecting. The switch is reported through `onFallback`. Defaults to false.
+   */
+  startFreshOnResumeFailure?: boolean;
+  /** Observer invoked whenever the thread switches providers. */
+  onFallback?: (info: { from: AdapterName; to: AdapterName; error: unknown }) => void;
+}
+
+interface ActiveProvider {
+  name: AdapterName;
+  coder: HeadlessCoder;
+  thread: ThreadHandle;
+}
+
+interface FallbackThreadState {
+  startOpts?: StartOpts;
+  index: number;
+  active: ActiveProvider;
+  history: ConversationMessage[];
+  /** Set when the active provider has not yet seen the replayed history. */
+  needsReplay: boolean;
+  /** Number of runs in flight per provider thread. */
+  inFlight: Map<ThreadHandle, number>;
+  /** Providers switched away from while a run was still in flight on them; closed once those runs settle. */
+  retired: ActiveProvider[];
+}
+
+/**
+ * Creates a HeadlessCoder that tries each provider in order, both when starting threads and when runs fail.
+ *
+ * Results carry the serving provider in `RunResult.provider`; streams begin every served attempt with an `init`
+ * event from that provider and announce switches with a `progress` event labelled `fallback`, holding back the
+ * failed provider's `error` event while another provider can still take over.
+ *
+ * @throws When `providers` is empty.
+ */
+export function createFallbackCoder(
+  providers: AdapterName[],
+  defaults?: StartOpts,
+  options: FallbackOptions = {},
+): HeadlessCoder {
+  if (!providers.length) {
+    throw new Error('createFallbackCoder() requires at least one provider.');
+  }
+  const shouldFallback = options.shouldFallback ?? ((error: unknown) => FAILOVER_CODES.has(classifyError(error)));
+  const replay = options.replayConversation ?? true;
+
+  const openProvider = async (
+    index: number,
+    opts: StartOpts | undefined,
+    resumeId?: string,
+  ): Promise<ActiveProvider> => {
+    const name = providers[index];
+    const coder = createCoder(name, { ...defaults, ...options.perProvider?.[name] }, options.coderOptions);
+    const thread = resumeId ? await coder.resumeThread(resumeId, opts) : await coder.startThread(opts);
+    return { name, coder, thread };
+  };
+
+  const openFrom = async (
+    start: number,
+    opts: StartOpts | undefined,
+  ): Promise<{ index: number; active: ActiveProvider }> => {
+    let lastError: unknown;
+    for (let index = start; index < providers.length; index += 1) {
+      try {
+        return { index, active: await openProvider(index, opts) };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError ?? new Error('No fallback provider could start a thread.');
+  };
+
+  const canSwitch = (state: FallbackThreadState, error: unknown): boolean =>
+    state.index + 1 < providers.length &&
+    !NEVER_FAILOVER_CODES.has(classifyError(error)) &&
+    shouldFallback(error, state.active.name);
+
+  const begin = (state: FallbackThreadState, thread: ThreadHandle) => {
+    state.inFlight.set(thread, (state.inFlight.get(thread) ?? 0) + 1);
+  };
+
+  const settle = async (state: FallbackThreadState, thread: ThreadHandle) => {
+    const remaining = (state.inFlight.get(thread) ?? 1) - 1;
+    if (remaining > 0) {
+      state.inFlight.set(thread, remaining);
+      return;
+    }
+    state.inFlight.delete(thread);
+    const index = state.retired.findIndex(retired => retired.thread === thread);
+    if (index < 0) return;
+    const [retired] = state.retired.splice(index, 1);
+    await retired.coder.close?.(retired.thread).catch(() => {});
+  };
+
+  /**
+   * Moves the thread past `failed`. Resolves true when the caller should try again on `state.active`: either this
+   * call switched providers, or a concurrent run already did.
+   */
+  const switchProvider = async (
+    state: FallbackThreadState,
+    failed: ActiveProvider,
+    error: unknown,
+  ): Promise<boolean> => {
+    if (state.active !== failed) return !NEVER_FAILOVER_CODES.has(classifyError(error));
+    if (!canSwitch(state, error)) return false;
+    const previous = state.active;
+    try {
+      const next = await openFrom(state.index + 1, state.startOpts);
+      state.index = next.index;
+      state.active = next.active;
+      state.needsReplay = replay && state.history.length > 0;
+    } catch {
+      return false;
+    }
+    // Closing a thread under a concurrent run would kill that run, so such threads are closed when it settles.
+    if (state.inFlight.has(previous.thread)) state.retired.push(previous);
+    else await previous.coder.close?.(previous.thread).catch(() => {});
+    const from = previous.name;
+    options.onFallback?.({ from, to: state.active.name, error });
+    return true;
+  };
+
+  const prepareInput = (state: FallbackThreadState, input: PromptInput): PromptInput => {
+    if (!state.needsReplay) return input;
+    return [...state.history, ...toMessages(input)];
+  };
+
+  const remember = (state: FallbackThreadState, thread: ThreadHandle, input: PromptInput, text?: string) => {
+    if (!replay) return;
+    state.history.push(...toMessages(input));
+    if (text) state.history.push({ role: 'assistant', content: text });
+    // Only the thread that served this turn has now seen the history.
+    if (thread === state.active.thread) state.needsReplay = false;
+  };
+
+  const createHandle = (state: FallbackThreadState): ThreadHandle => {
+    const handle: ThreadHandle = {
+      get provider() {
+        return state.active.thread.provider;
+      },
+      internal: state,
+      get id() {
+        return state.active.thread.id;
+      },
+      set id(value) {
+        state.active.thread.id = value;
+      },
+      run: async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+        while (true) {
+          const active = state.active;
+          const { thread } = active;
+          let result: RunResult;
+          begin(state, thread);
+          try {
+            result = await thread.run(prepareInput(state, input), opts);
+          } catch (error) {
+            await settle(state, thread);
+            if (!(await switchProvider(state, active, error))) throw error;
+            continue;
+          }
+          await settle(state, thread);
+          remember(state, thread, input, result.text);
+          return { ...result, provider: thread.provider };
+        }
+      },
+      runStreamed: (input: PromptInput, opts?: RunOpts): EventIterator => ({
+        async *[Symbol.asyncIterator]() {
+          while (true) {
+            const active = state.active;
+            const { thread } = active;
+            let sawInit = false;
+            let sawDone = false;
+            let text = '';
+            let failure: unknown;
+            let held: CoderStreamEvent | undefined;
+            let thrown = false;
+            begin(state, thread);
+            try {
+              for await (const event of thread.runStreamed(prepareInput(state, input), opts)) {
+                if (!sawInit && event.type !== 'init') {
+                  yield { type: 'init', provider: thread.provider, threadId: thread.id, ts: now() };
+                }
+                sawInit = true;
+                if (event.type === 'error' && event.code !== 'interrupted' && !sawDone) {
+                  failure = Object.assign(new Error(event.message), { code: event.code });
+                  // Surfaced only if no other provider takes over; otherwise the `fallback` progress event reports it.
+                  if (canSwitch(state, failure)) {
+                    held = event;
+                    continue;
+                  }
+                }
+                if (event.type === 'message' && event.role === 'assistant' && event.text) {
+                  text = event.delta ? text + event.text : event.text;
+                }
+                if (event.type === 'done') sawDone = true;
+                yield event;
+              }
+            } catch (error) {
+              failure = error;
+              thrown = true;
+            } finally {
+              await settle(state, thread);
+            }
+            if (sawDone || failure === undefined) {
+              remember(state, thread, input, text || undefined);
+              return;
+            }
+            const from = active.name;
+            if (!(await switchProvider(state, active, failure))) {
+              if (held) yield held;
+              if (thrown) throw failure;
+              return;
+            }
+            yield {
+              type: 'progress',
+              provider: thread.provider,
+              label: 'fallback',
+              detail: `${from} -> ${state.active.name}: ${failure instanceof Error ? failure.message : String(failure)}`,
+              ts: now(),
+              originalItem: { from, to: state.active.name },
+            };
+          }
+        },
+      }),
+      interrupt: async reason => {
+        await state.active.thread.interrupt?.(reason);
+      },
+    };
+    return handle;
+  };
+
+  const open = async (opts?: StartOpts): Promise<ThreadHandle> => {
+    const { index, active } = await openFrom(0, opts);
+    return createHandle(initialState(opts, index, active));
+  };
+
+  // Thread ids belong to one provider, so only the first provider can resume; the others can only start over.
+  const resume = async (threadId: string, opts?: StartOpts): Promise<ThreadHandle> => {
+    let active: ActiveProvider;
+    try {
+      active = await openProvider(0, opts, threadId);
+    } catch (error) {
+      if (!options.startFreshOnResumeFailure || providers.length < 2) throw error;
+      const next = await openFrom(1, opts);
+      options.onFallback?.({ from: providers[0], to: next.active.name, error });
+      return createHandle(initialState(opts, next.index, next.active));
+    }
+    return createHandle(initialState(opts, 0, active));
+  };
+
+  return {
+    startThread: opts => open(opts),
+    resumeThread: (threadId, opts) => resume(threadId, opts),
+    getThreadId: thread => {
+      const state = thread.internal as FallbackThreadState;
+      return state.active.coder.getThreadId(state.active.thread);
+    },
+    close: async thread => {
+      const state = thread.internal as FallbackThreadState;
+      for (const retired of state.retired.splice(0)) await retired.coder.close?.(retired.thread).catch(() => {});
+      await state.active.coder.close?.(state.active.thread);
+    },
+  };
+}
+
+function initialState(startOpts: StartOpts | undefined, index: number, active: ActiveProvider): FallbackThreadState {
+  return { startOpts, index, active, history: [], needsReplay: false, inFlight: new Map(), retired: [] };
+}
+
+function toMessages(input: PromptInput): ConversationMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
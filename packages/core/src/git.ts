@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Internal helper for invoking the git CLI.
+ */
+
+import { execFile } from 'node:child_process';
+import { copyFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+
+/** Identity used for commits the SDK makes on the user's behalf when git has none configured. */
+export const SDK_IDENTITY = {
+  GIT_AUTHOR_NAME: 'headless-coder',
+  GIT_AUTHOR_EMAIL: 'headless-coder@localhost.invalid',
+  GIT_COMMITTER_NAME: 'headless-coder',
+  GIT_COMMITTER_EMAIL: 'headless-coder@localhost.invalid',
+};
+
+/**
+ * Runs git in `cwd` and resolves with stdout.
+ *
+ * @throws An error carrying git's stderr when the command exits non-zero.
+ */
+export function git(cwd: string, args: string[], env?: Record<string, string>, stdin?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      args,
+      { cwd, env: { ...process.env, ...env }, maxBuffer: 256 * 1024 * 1024, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`git ${args[0]} failed: ${String(stderr).trim() || error.message}`));
+          return;
+        }
+        resolve(String(stdout));
+      },
+    );
+    if (stdin !== undefined) child.stdin?.end(stdin);
+  });
+}
+
+/**
+ * Returns environment overrides that make commits succeed: empty when the user has an identity configured,
+ * otherwise SDK_IDENTITY.
+ */
+export async function commitIdentity(cwd: string): Promise<Record<string, string>> {
+  return git(cwd, ['var', 'GIT_COMMITTER_IDENT']).then(
+    () => ({}),
+    () => SDK_IDENTITY,
+  );
+}
+
+/**
+ * Writes the work tree of `cwd` (tracked and untracked files, honouring .gitignore) as a tree object and returns its
+ * id. A temporary index is used, so the repository's own index is left untouched.
+ */
+export async function writeWorkTree(cwd: string): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'headless-coder-index-'));
+  const env = { GIT_INDEX_FILE: path.join(dir, 'index') };
+  try {
+    const realIndex = (await git(cwd, ['rev-parse', '--path-format=absolute', '--git-path', 'index'])).trim();
+    // Seeding with the real index lets git reuse its stat cache instead of rehashing every file.
+    await copyFile(realIndex, env.GIT_INDEX_FILE).catch(() => {});
+    await git(cwd, ['add', '-A', '--', ':/'], env);
+    return (await git(cwd, ['write-tree'], env)).trim();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
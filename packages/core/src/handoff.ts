@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Cross-provider handoff: continues a conversation on another adapter by seeding a new thread with a
+ * condensed transcript, an optional summary and the shared working directory.
+ */
+
+import { decorateThread } from './decorate.js';
+import { createCoder } from './factory.js';
+import type { CreateCoderOptions } from './factory.js';
+import { groupRuns, summarizeRun } from './transcript.js';
+import type { TranscriptRecord, TranscriptStore } from './transcript.js';
+import type {
+  AdapterName,
+  EventIterator,
+  HandoffLink,
+  PromptInput,
+  RunOpts,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+const DEFAULT_MAX_TRANSCRIPT_CHARS = 12_000;
+const MAX_TURN_CHARS = 2_000;
+const MAX_ACTIVITY_LINES = 10;
+
+const DEFAULT_SUMMARY_PROMPT =
+  'Another agent is taking over this task. Summarise the goal, what has been done so far (including files changed), ' +
+  'open questions and the next steps. Reply with the summary only.';
+
+/**
+ * Options for handoff().
+ */
+export interface HandoffOptions {
+  /** Start options for the new thread; `workingDirectory` defaults to the source thread's. */
+  startOpts?: StartOpts;
+  /** Options for the target coder, such as middleware or a transcript store. */
+  coderOptions?: CreateCoderOptions;
+  /** The conversation to condense: its records, or the store the source coder records to. */
+  transcript?: TranscriptRecord[] | TranscriptStore;
+  /** Ask the source thread for a summary before handing off; a string replaces the default prompt. */
+  summary?: boolean | string;
+  /** Run options for the summary turn. */
+  summaryOpts?: RunOpts;
+  /** Upper bound for the condensed transcript; the oldest turns are dropped first. Defaults to 12,000 characters. */
+  maxTranscriptChars?: number;
+}
+
+/**
+ * Continues `thread` on `target`. The new thread runs in the same working directory (or worktree) and its first
+ * prompt is prefixed with the condensed conversation; `thread.handoff` links it back to the source thread id.
+ *
+ * Providers keep their sessions private, so the conversation comes from `options.transcript`. Without one, only the
+ * summary (when requested) is carried over.
+ *
+ * @throws When the target adapter is not registered or the summary turn fails.
+ */
+export async function handoff(
+  thread: ThreadHandle,
+  target: AdapterName,
+  options: HandoffOptions = {},
+): Promise<ThreadHandle> {
+  const source = thread.id;
+  const records = Array.isArray(options.transcript)
+    ? options.transcript
+    : options.transcript && source
+      ? await options.transcript.read(source)
+      : [];
+
+  let summary: string | undefined;
+  if (options.summary) {
+    const prompt = typeof options.summary === 'string' ? options.summary : DEFAULT_SUMMARY_PROMPT;
+    summary = (await thread.run(prompt, options.summaryOpts)).text?.trim() || undefined;
+  }
+
+  const workingDirectory = thread.worktree?.path ?? thread.workingDirectory;
+  const link: HandoffLink = {
+    provider: thread.provider,
+    threadId: thread.id,
+    summary,
+    context: buildContext(thread, records, summary, workingDirectory, options.maxTranscriptChars),
+  };
+
+  const coder = createCoder(target, undefined, options.coderOptions);
+  const next = await coder.startThread({ workingDirectory, ...options.startOpts });
+  return seedThread(next, link);
+}
+
+function seedThread(inner: ThreadHandle, link: HandoffLink): ThreadHandle {
+  let seeded = false;
+  const seed = (input: PromptInput): PromptInput => {
+    if (seeded) return input;
+    return typeof input === 'string'
+      ? `${link.context}\n\n${input}`
+      : [{ role: 'system', content: link.context }, ...input];
+  };
+
+  return decorateThread(
+    inner,
+    {
+      run: async (input, opts) => {
+        const result = await inner.run(seed(input), opts);
+        seeded = true;
+        return result;
+      },
+      runStreamed: (input, opts): EventIterator => ({
+        async *[Symbol.asyncIterator]() {
+          let failed = false;
+          for await (const event of inner.runStreamed(seed(input), opts)) {
+            if (event.type === 'error' || event.type === 'cancelled') failed = true;
+            yield event;
+          }
+          // A failed first turn never reached the model's context, so the next turn is seeded again.
+          if (!failed) seeded = true;
+        },
+      }),
+    },
+    { handoff: link },
+  );
+}
+
+function buildContext(
+  thread: ThreadHandle,
+  records: TranscriptRecord[],
+  summary: string | undefined,
+  workingDirectory: string | undefined,
+  maxChars = DEFAULT_MAX_TRANSCRIPT_CHARS,
+): string {
+  const origin = thread.id ? `${thread.provider} thread ${thread.id}` : `a ${thread.provider} thread`;
+  const parts = [`You are taking over a conversation that started in ${origin}.`];
+  if (workingDirectory) parts.push(`Working directory: ${workingDirectory}`);
+  const transcript = condenseTranscript(records, maxChars);
+  if (transcript) parts.push(`Conversation so far:\n\n${transcript}`);
+  if (summary) parts.push(`Summary from the previous agent:\n\n${summary}`);
+  parts.push('Continue from there. The new request follows.');
+  return parts.join('\n\n');
+}
+
+function condenseTranscript(records: TranscriptRecord[], maxChars: number): string {
+  const turns = groupRuns(records).map((run, index) => {
+    const digest = summarizeRun(run, index);
+    const lines = [`User: ${truncate(digest.input)}`];
+    if (digest.activity.length) {
+      const shown = digest.activity.slice(0, MAX_ACTIVITY_LINES).map(line => truncate(line, 200));
+      const hidden = digest.activity.length - shown.length;
+      lines.push(`Activity: ${shown.join('; ')}${hidden > 0 ? `; …and ${hidden} more` : ''}`);
+    }
+    const reply = digest.reply ?? digest.json;
+    lines.push(`Assistant: ${reply ? truncate(reply) : digest.error ? `(failed: ${digest.error})` : '(no reply)'}`);
+    return lines.join('\n');
+  });
+
+  let length = 0;
+  let first = turns.length;
+  while (first > 0 && length + turns[first - 1].length <= maxChars) {
+    first -= 1;
+    length += turns[first].length;
+  }
+  const kept = turns.slice(first);
+  if (first > 0) kept.unshift(`[${first} earlier turn(s) omitted]`);
+  return kept.join('\n\n');
+}
+
+function truncate(text: string, max = MAX_TURN_CHARS): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
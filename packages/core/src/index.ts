@@ -8,5 +8,103 @@ export {
   unregisterAdapter,
   clearRegisteredAdapters,
   getAdapterFactory,
+  getRegisteredAdapters,
   createCoder,
 } from './factory.js';
+export type { CreateCoderOptions } from './factory.js';
+export { applyMiddleware } from './middleware.js';
+export type { CoderMiddleware, MiddlewareContext } from './middleware.js';
+export { isRetryableError, computeRetryDelay } from './retry.js';
+export {
+  HeadlessCoderError,
+  BusyError,
+  InterruptedError,
+  AuthError,
+  RateLimitError,
+  BinaryNotFoundError,
+  SchemaViolationError,
+  ProviderFailureError,
+  TimeoutError,
+  IdleTimeoutError,
+  BudgetExceededError,
+  MergeConflictError,
+  HEADLESS_CODER_ERROR_CODES,
+  isHeadlessCoderError,
+  classifyError,
+  toHeadlessCoderError,
+  createHeadlessCoderError,
+} from './errors.js';
+export type { HeadlessCoderErrorCode, HeadlessCoderErrorOptions } from './errors.js';
+export { createRunDeadline, withHeartbeat } from './deadline.js';
+export type { RunDeadline } from './deadline.js';
+export { createScheduler } from './scheduler.js';
+export type { Scheduler, SchedulerOptions, SchedulerStats } from './scheduler.js';
+export { race } from './race.js';
+export type { RaceOptions, RaceResult, RaceCandidateReport } from './race.js';
+export { ensemble } from './ensemble.js';
+export type {
+  EnsembleOptions,
+  EnsembleMember,
+  EnsembleResult,
+  EnsembleCandidateResult,
+  JudgeCandidate,
+  JudgeVerdict,
+} from './ensemble.js';
+export { createPipeline } from './pipeline.js';
+export { renderTemplate, lookupPath } from './placeholders.js';
+export type {
+  Pipeline,
+  PipelineDefinition,
+  PipelineNode,
+  PipelineStep,
+  PipelineLoop,
+  PipelineContext,
+  PipelineStepOutput,
+  PipelineEvent,
+  PipelineResult,
+  PipelineRunOptions,
+} from './pipeline.js';
+export {
+  createMemoryTranscriptStore,
+  createJsonlTranscriptStore,
+  createSqliteTranscriptStore,
+  exportTranscript,
+} from './transcript.js';
+export type {
+  TranscriptStore,
+  TranscriptRecord,
+  TranscriptRecordBase,
+  TranscriptRecordData,
+  TranscriptFormat,
+  TranscriptErrorHandler,
+  SqliteDatabase,
+} from './transcript.js';
+export { createPromptTemplate } from './template.js';
+export type {
+  PromptTemplate,
+  PromptTemplateDefinition,
+  PromptTemplateLimits,
+  PromptRenderOptions,
+  PromptVariable,
+  PromptVariableType,
+  PromptVariableValues,
+} from './template.js';
+export { handoff } from './handoff.js';
+export type { HandoffOptions } from './handoff.js';
+export { createFallbackCoder } from './fallback.js';
+export type { FallbackOptions } from './fallback.js';
+export {
+  setPriceTable,
+  registerModelPricing,
+  getModelPricing,
+  estimateCost,
+  finalizeUsage,
+  mergeUsage,
+  toFiniteNumber,
+} from './usage.js';
+export type { ModelPricing, PriceTable } from './usage.js';
+export type { BudgetViolation } from './budget.js';
+export { extractJsonPayload, validateAgainstSchema } from './validation.js';
+export { runStructured } from './structured.js';
+export type { FromSchema, StructuredRunOpts } from './structured.js';
+export { createUnifiedPatch } from './patch.js';
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Middleware pipeline applied around ThreadHandle.run and runStreamed.
+ */
+
+import { decorateCoder, decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import type {
+  CoderStreamEvent,
+  EventIterator,
+  HeadlessCoder,
+  PromptInput,
+  Provider,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from './types.js';
+
+/**
+ * Per-run state handed to every middleware hook.
+ *
+ * `input` and `opts` may be reassigned in `beforeRun`; the adapter receives the final values.
+ */
+export interface MiddlewareContext {
+  thread: ThreadHandle;
+  provider: Provider;
+  mode: 'run' | 'stream';
+  input: PromptInput;
+  opts: RunOpts;
+  startOpts: StartOpts;
+  /** Scratch space shared by all hooks for the lifetime of one run. */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Interceptor applied to every run of a coder created with middleware.
+ *
+ * Hooks execute in declaration order. `onEvent` may return a replacement event, `null` to drop the event,
+ * or nothing to forward it unchanged. `afterRun` only applies to `run()` results.
+ */
+export interface CoderMiddleware {
+  name?: string;
+  beforeRun?(ctx: MiddlewareContext): void | Promise<void>;
+  onEvent?(
+    event: CoderStreamEvent,
+    ctx: MiddlewareContext,
+  ): CoderStreamEvent | null | void | Promise<CoderStreamEvent | null | void>;
+  afterRun?(result: RunResult, ctx: MiddlewareContext): RunResult | void | Promise<RunResult | void>;
+  onError?(error: unknown, ctx: MiddlewareContext): void | Promise<void>;
+}
+
+/**
+ * Returns a coder whose threads run every call through the supplied middleware chain.
+ */
+export function applyMiddleware(
+  coder: HeadlessCoder,
+  middleware: CoderMiddleware[],
+  defaults?: StartOpts,
+): HeadlessCoder {
+  if (!middleware.length) return coder;
+  return decorateCoder(coder, defaults, middlewareDecorator(middleware));
+}
+
+/**
+ * Thread decorator form of the middleware chain, used by createCoder().
+ */
+export function middlewareDecorator(middleware: CoderMiddleware[]): ThreadDecorator {
+  return (thread, startOpts) => wrapThread(thread, middleware, startOpts);
+}
+
+function wrapThread(inner: ThreadHandle, middleware: CoderMiddleware[], startOpts: StartOpts): ThreadHandle {
+  const createContext = (mode: MiddlewareContext['mode'], input: PromptInput, opts?: RunOpts) => ({
+    thread: outer,
+    provider: inner.provider,
+    mode,
+    input,
+    opts: { ...opts },
+    startOpts,
+    state: {},
+  });
+
+  const outer: ThreadHandle = decorateThread(inner, {
+    run: async (input, opts) => {
+      const ctx = createContext('run', input, opts);
+      try {
+        await runBefore(middleware, ctx);
+        let result = await inner.run(ctx.input, ctx.opts);
+        for (const layer of middleware) {
+          if (!layer.afterRun) continue;
+          result = (await layer.afterRun(result, ctx)) ?? result;
+        }
+        return result;
+      } catch (error) {
+        await runOnError(middleware, error, ctx);
+        throw error;
+      }
+    },
+    runStreamed: (input, opts): EventIterator => ({
+      async *[Symbol.asyncIterator]() {
+        const ctx = createContext('stream', input, opts);
+        try {
+          await runBefore(middleware, ctx);
+          for await (const event of inner.runStreamed(ctx.input, ctx.opts)) {
+            const transformed = await transformEvent(middleware, event, ctx);
+            if (transformed) yield transformed;
+          }
+        } catch (error) {
+          await runOnError(middleware, error, ctx);
+          throw error;
+        }
+      },
+    }),
+  });
+  return outer;
+}
+
+async function runBefore(middleware: CoderMiddleware[], ctx: MiddlewareContext): Promise<void> {
+  for (const layer of middleware) {
+    await layer.beforeRun?.(ctx);
+  }
+}
+
+async function transformEvent(
+  middleware: CoderMiddleware[],
+  event: CoderStreamEvent,
+  ctx: MiddlewareContext,
+): Promise<CoderStreamEvent | null> {
+  let current: CoderStreamEvent = event;
+  for (const layer of middleware) {
+    if (!layer.onEvent) continue;
+    const next = await layer.onEvent(current, ctx);
+    if (next === null) return null;
+    if (next) current = next;
+  }
+  return current;
+}
+
+async function runOnError(middleware: CoderMiddleware[], error: unknown, ctx: MiddlewareContext): Promise<void> {
+  for (const layer of middleware) {
+    try {
+      await layer.onError?.(error, ctx);
+    } catch {
+      // Observers must not mask the original failure.
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Minimal unified diff generation used by adapters to describe file edits.
+ */
+
+const CONTEXT_LINES = 3;
+/** Above this many line pairs the LCS table gets too large; the patch then replaces the file wholesale. */
+const MAX_DIFF_CELLS = 4_000_000;
+/** Suffix marking a final line without a trailing newline, so it never compares equal to a terminated line. */
+const NO_EOL = '\u0000';
+
+type DiffOp = { kind: 'equal' | 'delete' | 'insert'; line: string };
+
+/**
+ * Builds a unified diff (`git diff` style headers) between two versions of a file.
+ *
+ * Pass `undefined` for `before` when the file is created and for `after` when it is deleted.
+ *
+ * @returns The patch text, or an empty string when both versions are identical.
+ */
+export function createUnifiedPatch(path: string, before: string | undefined, after: string | undefined): string {
+  if (before === after) return '';
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+  const header = [
+    before === undefined ? '--- /dev/null' : `--- a/${stripLeadingSlash(path)}`,
+    after === undefined ? '+++ /dev/null' : `+++ b/${stripLeadingSlash(path)}`,
+  ];
+  return [...header, ...buildHunks(ops)].join('\n') + '\n';
+}
+
+function splitLines(text: string | undefined): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_EOL;
+  }
+  return lines;
+}
+
+function stripLeadingSlash(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(line => ({ kind: 'delete' as const, line })),
+      ...b.map(line => ({ kind: 'insert' as const, line })),
+    ];
+  }
+  // Longest-common-subsequence table over the suffixes of both inputs.
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: 'equal', line: a[i] });
+      i += 1;
+      j += 1;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ kind: 'delete', line: a[i] });
+      i += 1;
+    } else {
+      ops.push({ kind: 'insert', line: b[j] });
+      j += 1;
+    }
+  }
+  while (i < a.length) ops.push({ kind: 'delete', line: a[i++] });
+  while (j < b.length) ops.push({ kind: 'insert', line: b[j++] });
+  return ops;
+}
+
+function buildHunks(ops: DiffOp[]): string[] {
+  const lines: string[] = [];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, position) => position >= index && op.kind !== 'equal');
+    if (firstChange === -1) break;
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    for (let k = index; k < start; k += 1) {
+      oldLine += 1;
+      newLine += 1;
+    }
+    // Extend the hunk until a run of unchanged lines is long enough to close it.
+    let end = firstChange;
+    let equalRun = 0;
+    for (let k = firstChange; k < ops.length; k += 1) {
+      if (ops[k].kind === 'equal') {
+        equalRun += 1;
+        if (equalRun > CONTEXT_LINES * 2) break;
+      } else {
+        equalRun = 0;
+        end = k;
+      }
+    }
+    const stop = Math.min(ops.length, end + 1 + CONTEXT_LINES);
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let k = start; k < stop; k += 1) {
+      const op = ops[k];
+      if (op.kind === 'equal') {
+        body.push(` ${op.line}`);
+        oldCount += 1;
+        newCount += 1;
+      } else if (op.kind === 'delete') {
+        body.push(`-${op.line}`);
+        oldCount += 1;
+      } else {
+        body.push(`+${op.line}`);
+        newCount += 1;
+      }
+    }
+    lines.push(
+      `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`,
+      ...body.flatMap(line => (line.endsWith(NO_EOL) ? [line.slice(0, -1), '\\ No newline at end of file'] : [line])),
+    );
+    oldLine += oldCount;
+    newLine += newCount;
+    index = stop;
+  }
+  return lines;
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff convention: empty ranges point at the line before the hunk.
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
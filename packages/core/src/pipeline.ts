@@ -0,0 +1,360 @@
+/**
+ * @fileoverview Declarative multi-step pipelines: each step runs a templated prompt on a provider, and loops repeat
+ * steps (for example implement/review) until a condition holds.
+ */
+
+import { createCoder } from './factory.js';
+import type { CreateCoderOptions } from './factory.js';
+import { SchemaViolationError } from './errors.js';
+import { mergeUsage } from './usage.js';
+import { buildRepairPrompt, DEFAULT_REPAIR_ATTEMPTS, extractJsonPayload, validateAgainstSchema } from './validation.js';
+import { renderTemplate } from './placeholders.js';
+import { now } from './types.js';
+import type {
+  AdapterName,
+  CoderStreamEvent,
+  HeadlessCoder,
+  PromptInput,
+  Provider,
+  RunChanges,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  UsageStats,
+} from './types.js';
+
+const DEFAULT_MAX_ITERATIONS = 3;
+
+/**
+ * A single agent turn in a pipeline.
+ */
+export interface PipelineStep {
+  name: string;
+  provider: AdapterName;
+  /** Template with `{{path}}` placeholders resolved against the PipelineContext, or a function building the prompt. */
+  prompt: string | ((context: PipelineContext) => PromptInput);
+  /** Merged over PipelineDefinition.defaults when the step's thread is started. */
+  startOpts?: StartOpts;
+  runOpts?: RunOpts;
+  /** Skips the step when it returns false. */
+  when?: (context: PipelineContext) => boolean;
+  /** Steps naming the same session share one thread. Defaults to the step name, so repeated runs keep context. */
+  session?: string;
+}
+
+/**
+ * Repeats its steps until `until` returns true or `maxIterations` is reached.
+ */
+export interface PipelineLoop {
+  name: string;
+  steps: PipelineNode[];
+  /** Checked after every iteration. */
+  until: (context: PipelineContext) => boolean;
+  /** Defaults to 3. */
+  maxIterations?: number;
+}
+
+export type PipelineNode = PipelineStep | PipelineLoop;
+
+export interface PipelineDefinition {
+  steps: PipelineNode[];
+  /** Values exposed to templates as `{{vars.name}}`. */
+  vars?: Record<string, unknown>;
+  /** Start options shared by every step, such as `workingDirectory`. */
+  defaults?: StartOpts;
+  /** Forwarded to every createCoder() call (middleware, scheduler, ...). */
+  coderOptions?: CreateCoderOptions;
+}
+
+/**
+ * Latest output of a step, exposed to templates as `{{steps.<name>.text}}`, `{{steps.<name>.json.field}}`, etc.
+ */
+export interface PipelineStepOutput {
+  step: string;
+  provider: Provider;
+  /** How many times the step has run, starting at 1. */
+  iteration: number;
+  text?: string;
+  json?: unknown;
+  /** Unified diff of the files the step changed (steps run with `trackChanges`). */
+  patch?: string;
+  result: RunResult;
+}
+
+export interface PipelineContext {
+  input: string;
+  vars: Record<string, unknown>;
+  steps: Record<string, PipelineStepOutput>;
+  /** Iteration of the innermost running loop, starting at 1; 0 outside loops. */
+  iteration: number;
+}
+
+interface PipelineEventTag {
+  step: string;
+  iteration: number;
+}
+
+/**
+ * Events from every step, tagged with the step name, plus step lifecycle events.
+ */
+export type PipelineEvent =
+  | (CoderStreamEvent & PipelineEventTag)
+  | ({ type: 'step_start'; provider: AdapterName; prompt: PromptInput; ts: number } & PipelineEventTag)
+  | ({ type: 'step_result'; provider: Provider; result: RunResult; ts: number } & PipelineEventTag)
+  | ({ type: 'step_skipped'; ts: number } & PipelineEventTag)
+  | ({ type: 'loop_end'; iterations: number; completed: boolean; ts: number } & PipelineEventTag);
+
+export interface PipelineResult {
+  /** Every step execution in order. */
+  runs: PipelineStepOutput[];
+  /** Latest output per step name. */
+  steps: Record<string, PipelineStepOutput>;
+  /** Iterations per loop and whether its `until` condition was met. */
+  loops: Record<string, { iterations: number; completed: boolean }>;
+  usage?: UsageStats;
+}
+
+export interface PipelineRunOptions {
+  /** Overrides PipelineDefinition.vars entries for this run. */
+  vars?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface Pipeline {
+  run(input?: string, opts?: PipelineRunOptions): Promise<PipelineResult>;
+  runStreamed(input?: string, opts?: PipelineRunOptions): AsyncIterable<PipelineEvent>;
+}
+
+interface Session {
+  coder: HeadlessCoder;
+  thread: ThreadHandle;
+}
+
+interface PipelineState {
+  context: PipelineContext;
+  /** Executions per step name. */
+  counts: Map<string, number>;
+  sessions: Map<string, Session>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates a reusable pipeline. Steps run in order on threads from createCoder(); a failing step stops the pipeline
+ * with an error carrying `step` and `iteration`.
+ *
+ * Step results are assembled from the stream: `text` from assistant messages, `usage` from usage events, `changes`
+ * from the change report, and `json` parsed from the text when `runOpts.outputSchema` is set. A non-conforming
+ * payload gets `runOpts.repair` turns on the step's thread, then fails the step with SchemaViolationError.
+ *
+ * @throws When step or loop names are missing or duplicated.
+ */
+export function createPipeline(definition: PipelineDefinition): Pipeline {
+  assertNames(definition.steps, new Set());
+
+  const runStreamed = (input = '', opts: PipelineRunOptions = {}): AsyncIterable<PipelineEvent> => ({
+    async *[Symbol.asyncIterator]() {
+      const state: PipelineState = {
+        context: { input, vars: { ...definition.vars, ...opts.vars }, steps: {}, iteration: 0 },
+        counts: new Map(),
+        sessions: new Map(),
+        signal: opts.signal,
+      };
+      try {
+        yield* runNodes(definition, definition.steps, state);
+      } finally {
+        await Promise.all(
+          [...state.sessions.values()].map(session => session.coder.close?.(session.thread).catch(() => {})),
+        );
+      }
+    },
+  });
+
+  const run = async (input?: string, opts?: PipelineRunOptions): Promise<PipelineResult> => {
+    const result: PipelineResult = { runs: [], steps: {}, loops: {} };
+    for await (const event of runStreamed(input, opts)) {
+      if (event.type === 'step_result') {
+        const output = toOutput(event.step, event.iteration, event.provider, event.result);
+        result.runs.push(output);
+        result.steps[event.step] = output;
+        result.usage = mergeUsage(result.usage, event.result.usage);
+      } else if (event.type === 'loop_end') {
+        result.loops[event.step] = { iterations: event.iterations, completed: event.completed };
+      }
+    }
+    return result;
+  };
+
+  return { run, runStreamed };
+}
+
+async function* runNodes(
+  definition: PipelineDefinition,
+  nodes: PipelineNode[],
+  state: PipelineState,
+): AsyncGenerator<PipelineEvent> {
+  for (const node of nodes) {
+    if ('steps' in node) {
+      yield* runLoop(definition, node, state);
+    } else {
+      yield* runStep(definition, node, state);
+    }
+  }
+}
+
+async function* runLoop(
+  definition: PipelineDefinition,
+  loop: PipelineLoop,
+  state: PipelineState,
+): AsyncGenerator<PipelineEvent> {
+  const maxIterations = loop.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const outer = state.context.iteration;
+  let iterations = 0;
+  let completed = false;
+  try {
+    while (!completed && iterations < maxIterations) {
+      iterations += 1;
+      state.context.iteration = iterations;
+      yield* runNodes(definition, loop.steps, state);
+      completed = loop.until(state.context);
+    }
+  } finally {
+    state.context.iteration = outer;
+  }
+  yield { type: 'loop_end', iterations, completed, ts: now(), step: loop.name, iteration: iterations };
+}
+
+async function* runStep(
+  definition: PipelineDefinition,
+  step: PipelineStep,
+  state: PipelineState,
+): AsyncGenerator<PipelineEvent> {
+  const tag = { step: step.name, iteration: (state.counts.get(step.name) ?? 0) + 1 };
+  if (step.when && !step.when(state.context)) {
+    yield { type: 'step_skipped', ts: now(), ...tag };
+    return;
+  }
+  const prompt =
+    typeof step.prompt === 'function' ? step.prompt(state.context) : renderTemplate(step.prompt, state.context);
+  state.counts.set(step.name, tag.iteration);
+  yield { type: 'step_start', provider: step.provider, prompt, ts: now(), ...tag };
+
+  const sessionKey = step.session ?? step.name;
+  let session = state.sessions.get(sessionKey);
+  try {
+    if (!session) {
+      const coder = createCoder(step.provider, { ...definition.defaults, ...step.startOpts }, definition.coderOptions);
+      session = { coder, thread: await coder.startThread() };
+      state.sessions.set(sessionKey, session);
+    }
+  } catch (error) {
+    throw stepFailure(tag, error);
+  }
+
+  const { thread } = session;
+  const opts: RunOpts = { ...step.runOpts, signal: step.runOpts?.signal ?? state.signal };
+  let result = deriveResult(yield* streamTurn(thread, prompt, opts, tag), thread, opts);
+  // Repair turns run on the step's thread like validationDecorator's, but streamed so their events are logged too.
+  const maxRepairs = opts.repair ? (opts.repair.maxAttempts ?? DEFAULT_REPAIR_ATTEMPTS) : 0;
+  let usage = result.usage;
+  let repairAttempts = 0;
+  while (result.validation && !result.validation.valid && repairAttempts < maxRepairs) {
+    repairAttempts += 1;
+    const repairPrompt = buildRepairPrompt(opts.repair!, result.validation.errors, result);
+    result = deriveResult(yield* streamTurn(thread, repairPrompt, opts, tag), thread, opts);
+    usage = mergeUsage(usage, result.usage);
+  }
+  if (result.validation) result = { ...result, usage, validation: { ...result.validation, repairAttempts } };
+
+  if (result.validation && !result.validation.valid) {
+    const summary = result.validation.errors.map(error => `${error.path || '(root)'} ${error.message}`).join('; ');
+    const violation = new SchemaViolationError(`Structured output did not match the schema: ${summary}`, {
+      provider: thread.provider,
+    });
+    throw stepFailure(tag, Object.assign(violation, { validation: result.validation.errors, result }));
+  }
+  state.context.steps[step.name] = toOutput(step.name, tag.iteration, thread.provider, result);
+  yield { type: 'step_result', provider: thread.provider, result, ts: now(), ...tag };
+}
+
+/** Streams one turn, forwarding its events tagged with the step, and returns them once the turn is done. */
+async function* streamTurn(
+  thread: ThreadHandle,
+  prompt: PromptInput,
+  opts: RunOpts,
+  tag: PipelineEventTag,
+): AsyncGenerator<PipelineEvent, CoderStreamEvent[]> {
+  const events: CoderStreamEvent[] = [];
+  let failure: unknown;
+  try {
+    for await (const event of thread.runStreamed(prompt, opts)) {
+      events.push(event);
+      yield { ...event, ...tag };
+    }
+  } catch (error) {
+    failure = error;
+  }
+  const sawDone = events.some(event => event.type === 'done');
+  if (!sawDone) {
+    const errorEvent = [...events].reverse().find(event => event.type === 'error');
+    failure ??= errorEvent
+      ? Object.assign(new Error(errorEvent.message), { code: errorEvent.code })
+      : new Error('Stream ended without a done event.');
+  }
+  if (failure !== undefined) throw stepFailure(tag, failure);
+  return events;
+}
+
+function deriveResult(events: CoderStreamEvent[], thread: ThreadHandle, opts: RunOpts): RunResult {
+  let text: string | undefined;
+  let deltas = '';
+  let usage: UsageStats | undefined;
+  let changes: RunChanges | undefined;
+  for (const event of events) {
+    if (event.type === 'message' && event.role === 'assistant') {
+      if (event.delta) deltas += event.text ?? '';
+      else if (event.text !== undefined) text = event.text;
+    } else if (event.type === 'usage') {
+      usage = mergeUsage(usage, event.stats);
+    } else if (event.type === 'progress' && event.label === 'changes') {
+      changes = event.originalItem;
+    }
+  }
+  text ??= deltas || undefined;
+  const result: RunResult = { threadId: thread.id, provider: thread.provider, text, usage, changes };
+  if (opts.outputSchema) {
+    result.json = extractJsonPayload(text);
+    const errors = validateAgainstSchema(opts.outputSchema, result.json);
+    result.validation = { valid: errors.length === 0, errors, repairAttempts: 0 };
+  }
+  return result;
+}
+
+function toOutput(step: string, iteration: number, provider: Provider, result: RunResult): PipelineStepOutput {
+  return {
+    step,
+    provider,
+    iteration,
+    text: result.text,
+    json: result.json,
+    patch: result.changes?.files.map(file => file.patch).join(''),
+    result,
+  };
+}
+
+function stepFailure(tag: PipelineEventTag, error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  return Object.assign(new Error(`Pipeline step "${tag.step}" failed: ${message}`, { cause: error }), {
+    ...tag,
+    code: (error as any)?.code,
+  });
+}
+
+function assertNames(nodes: PipelineNode[], seen: Set<string>): void {
+  for (const node of nodes) {
+    if (!node.name) throw new Error('Every pipeline step and loop needs a name.');
+    if (seen.has(node.name)) throw new Error(`Duplicate pipeline step name "${node.name}".`);
+    seen.add(node.name);
+    if ('steps' in node) assertNames(node.steps, seen);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview `{{path}}` placeholder rendering shared by pipelines and prompt templates.
+ */
+
+/**
+ * Replaces `{{path}}` placeholders with values looked up in `context` (dot-separated, array indexes allowed).
+ *
+ * Missing values render as an empty string and objects as indented JSON.
+ */
+export function renderTemplate(template: string, context: object): string {
+  return template.replace(/\{\{\s*([\w$.-]+)\s*\}\}/g, (_, path: string) => {
+    const value = lookupPath(context, path);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+  });
+}
+
+/**
+ * Reads a dot-separated path such as `steps.review.json.approved` from `source`.
+ */
+export function lookupPath(source: unknown, path: string): unknown {
+  let current: any = source;
+  for (const key of path.split('.')) {
+    if (current === undefined || current === null) return undefined;
+    current = current[key];
+  }
+  return current;
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Race mode: sends one prompt to several coders and keeps the first acceptable result.
+ */
+
+import { InterruptedError, classifyError } from './errors.js';
+import { mergeUsage } from './usage.js';
+import { validateAgainstSchema } from './validation.js';
+import type {
+  HeadlessCoder,
+  PromptInput,
+  Provider,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+  UsageStats,
+} from './types.js';
+
+export interface RaceOptions extends RunOpts {
+  /** Options for the thread started on every coder. */
+  startOpts?: StartOpts;
+  /** Extra acceptance check applied after schema validation. Rejected results do not win the race. */
+  accept?: (result: RunResult, provider: Provider) => boolean;
+  /** Keeps the winner's thread open and returns it as `RaceResult.thread`; otherwise every thread is closed. */
+  keepWinner?: boolean;
+}
+
+/**
+ * How a single candidate fared in a race.
+ */
+export interface RaceCandidateReport {
+  /** Position of the coder in the `coders` array. */
+  index: number;
+  provider?: Provider;
+  /** `running` while a losing candidate is still winding down; the report is updated in place once it settles. */
+  status: 'running' | 'won' | 'lost' | 'rejected' | 'failed' | 'cancelled';
+  /** Usage reported by the candidate's run; absent when the run was interrupted before it finished. */
+  usage?: UsageStats;
+  /** Wall-clock time from the start of the race until the candidate settled. */
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface RaceResult<T = unknown> extends RunResult<T> {
+  provider: Provider;
+  /** One report per coder, in the order the coders were passed. */
+  candidates: RaceCandidateReport[];
+  /** Usage summed across every candidate that had reported it when the race was decided. */
+  totalUsage?: UsageStats;
+  /** Resolves with the final reports once every loser has settled and its thread is closed. */
+  settled: Promise<RaceCandidateReport[]>;
+  /** The winner's thread, when `keepWinner` is set. Close it with the winning coder. */
+  thread?: ThreadHandle;
+}
+
+interface Candidate {
+  coder: HeadlessCoder;
+  report: RaceCandidateReport;
+  thread?: ThreadHandle;
+}
+
+/**
+ * Runs `input` on a fresh thread from every coder at once and resolves with the first result that passes
+ * `outputSchema` validation (when set) and `accept`. The remaining runs are stopped with `interrupt()` and closed in
+ * the background, so a loser that is slow to stop never delays the result; `RaceResult.settled` waits for them.
+ *
+ * Results from coders built with createCoder() use their own `validation`; other results are validated here.
+ *
+ * @throws AggregateError with every candidate's failure when no result is accepted, or InterruptedError when
+ * `signal` aborts first.
+ */
+export async function race<T = unknown>(
+  coders: HeadlessCoder[],
+  input: PromptInput,
+  opts: RaceOptions = {},
+): Promise<RaceResult<T>> {
+  if (!coders.length) {
+    throw new Error('race() requires at least one coder.');
+  }
+  const { startOpts, accept, keepWinner, ...runOpts } = opts;
+  const startedAt = Date.now();
+  const candidates: Candidate[] = coders.map((coder, index) => ({
+    coder,
+    report: { index, status: 'running', durationMs: 0 },
+  }));
+  let winner: { candidate: Candidate; result: RunResult } | undefined;
+  let decide!: () => void;
+  const decided = new Promise<void>(resolve => (decide = resolve));
+
+  const stopOthers = (except?: Candidate) =>
+    Promise.all(
+      candidates
+        .filter(candidate => candidate !== except && candidate.thread)
+        .map(candidate => candidate.thread!.interrupt?.('Lost the race').catch(() => {})),
+    );
+  const onAbort = () => void stopOthers();
+  if (runOpts.signal?.aborted) throw new InterruptedError();
+  runOpts.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const contend = async (candidate: Candidate) => {
+    const { report } = candidate;
+    try {
+      candidate.thread = await candidate.coder.startThread(startOpts);
+      report.provider = candidate.thread.provider;
+      if (winner || runOpts.signal?.aborted) {
+        report.status = 'cancelled';
+        return;
+      }
+      const result = await candidate.thread.run(input, runOpts);
+      report.usage = result.usage;
+      if (winner) {
+        report.status = 'lost';
+      } else if (!isAcceptable(result, candidate.thread.provider, runOpts, accept)) {
+        report.status = 'rejected';
+      } else {
+        report.status = 'won';
+        winner = { candidate, result };
+        void stopOthers(candidate);
+      }
+    } catch (error) {
+      report.error = error;
+      report.status = classifyError(error) === 'interrupted' ? 'cancelled' : 'failed';
+    } finally {
+      report.durationMs = Date.now() - startedAt;
+    }
+  };
+
+  const reports = candidates.map(candidate => candidate.report);
+
+  const finish = async (candidate: Candidate) => {
+    await contend(candidate);
+    const won = candidate === winner?.candidate;
+    if (candidate.thread && !(keepWinner && won)) {
+      await candidate.coder.close?.(candidate.thread).catch(() => {});
+    }
+    if (won) decide();
+  };
+
+  const settled = Promise.all(candidates.map(finish)).then(() => {
+    runOpts.signal?.removeEventListener('abort', onAbort);
+    return reports;
+  });
+  await Promise.race([decided, settled]);
+
+  const totalUsage = reports.reduce<UsageStats | undefined>((sum, report) => mergeUsage(sum, report.usage), undefined);
+  if (!winner) {
+    if (runOpts.signal?.aborted) throw new InterruptedError('Race was interrupted');
+    throw Object.assign(
+      new AggregateError(
+        reports.map(report => report.error ?? new Error(`Candidate ${report.index} returned an unacceptable result.`)),
+        'No race candidate produced an acceptable result.',
+      ),
+      { candidates: reports },
+    );
+  }
+  return {
+    ...(winner.result as RunResult<T>),
+    provider: winner.candidate.thread!.provider,
+    candidates: reports,
+    totalUsage,
+    settled,
+    thread: keepWinner ? winner.candidate.thread : undefined,
+  };
+}
+
+function isAcceptable(
+  result: RunResult,
+  provider: Provider,
+  opts: RunOpts,
+  accept: RaceOptions['accept'],
+): boolean {
+  if (opts.outputSchema) {
+    const valid = result.validation?.valid ?? validateAgainstSchema(opts.outputSchema, result.json).length === 0;
+    if (!valid) return false;
+  }
+  return accept ? accept(result, provider) : true;
+}
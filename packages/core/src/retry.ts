@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Retry with exponential backoff for transient provider failures.
+ */
+
+import { decorateThread } from './decorate.js';
+import { InterruptedError } from './errors.js';
+import type { ThreadDecorator } from './decorate.js';
+import { now } from './types.js';
+import type { CoderStreamEvent, EventIterator, RetryPolicy, RunOpts } from './types.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1_000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DEFAULT_JITTER = 0.2;
+
+const TRANSIENT_PATTERN =
+  /rate.?limit|too many requests|\b429\b|overloaded|\b529\b|\b50[234]\b|temporarily unavailable|service unavailable|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/i;
+
+/** Taxonomy codes that retrying cannot fix. */
+const PERMANENT_CODES = new Set([
+  'interrupted',
+  'busy',
+  'auth',
+  'binary_not_found',
+  'schema_violation',
+  'budget_exceeded',
+]);
+
+/**
+ * Default classifier: rate limits, overloaded backends and dropped connections are retryable;
+ * interrupts, auth failures and other permanent errors never are.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error) return false;
+  const code = (error as any)?.code;
+  if (PERMANENT_CODES.has(code) || (error as any)?.name === 'AbortError') return false;
+  if (code === 'rate_limited') return true;
+  const message = error instanceof Error ? error.message : String((error as any)?.message ?? error);
+  return TRANSIENT_PATTERN.test(message) || (typeof code === 'string' && TRANSIENT_PATTERN.test(code));
+}
+
+/**
+ * Computes the backoff before the given retry (1-based), including jitter.
+ */
+export function computeRetryDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+  const initial = policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const factor = policy.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const jitter = Math.min(Math.max(policy.jitter ?? DEFAULT_JITTER, 0), 1);
+  const base = Math.min(max, initial * Math.pow(factor, retry - 1));
+  return Math.round(base * (1 - jitter + 2 * jitter * random()));
+}
+
+/**
+ * Thread decorator that re-issues failed turns according to RunOpts.retry / StartOpts.retry.
+ */
+export const retryDecorator: ThreadDecorator = (inner, startOpts) => {
+  let backoff: AbortController | undefined;
+
+  const resolvePolicy = (opts?: RunOpts): RetryPolicy | undefined => {
+    if (opts?.retry === false) return undefined;
+    return opts?.retry ?? startOpts.retry;
+  };
+
+  const shouldRetry = (policy: RetryPolicy, error: unknown, attempt: number) => {
+    const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (attempt >= maxAttempts) return false;
+    return (policy.retryOn ?? isRetryableError)(error, attempt);
+  };
+
+  const waitBeforeRetry = async (
+    policy: RetryPolicy,
+    attempt: number,
+    delayMs: number,
+    error: unknown,
+    opts?: RunOpts,
+  ) => {
+    policy.onRetry?.({ attempt: attempt + 1, delayMs, error });
+    backoff = new AbortController();
+    try {
+      await sleep(delayMs, [backoff.signal, opts?.signal]);
+    } finally {
+      backoff = undefined;
+    }
+  };
+
+  return decorateThread(inner, {
+    run: async (input, opts) => {
+      const policy = resolvePolicy(opts);
+      if (!policy) return inner.run(input, opts);
+      for (let attempt = 1; ; attempt += 1) {
+        try {
+          return await inner.run(input, opts);
+        } catch (error) {
+          if (!shouldRetry(policy, error, attempt)) throw error;
+          await waitBeforeRetry(policy, attempt, computeRetryDelay(policy, attempt), error, opts);
+        }
+      }
+    },
+    runStreamed: (input, opts): EventIterator => {
+      const policy = resolvePolicy(opts);
+      if (!policy) return inner.runStreamed(input, opts);
+      return {
+        async *[Symbol.asyncIterator]() {
+          for (let attempt = 1; ; attempt += 1) {
+            let sawDone = false;
+            let heldError: Extract<CoderStreamEvent, { type: 'error' }> | undefined;
+            let thrown: { error: unknown } | undefined;
+            try {
+              for await (const event of inner.runStreamed(input, opts)) {
+                if (heldError) {
+                  yield heldError;
+                  heldError = undefined;
+                }
+                if (event.type === 'error' && event.code !== 'interrupted' && !sawDone) {
+                  // Provider errors are held back until we know whether the turn will be retried.
+                  heldError = event;
+                  continue;
+                }
+                if (event.type === 'done') sawDone = true;
+                yield event;
+              }
+            } catch (error) {
+              thrown = { error };
+            }
+            if (!thrown && !heldError) return;
+            const failure = thrown ? thrown.error : errorFromEvent(heldError!);
+            if (sawDone || !shouldRetry(policy, failure, attempt)) {
+              if (heldError) yield heldError;
+              if (thrown) throw thrown.error;
+              return;
+            }
+            const delayMs = computeRetryDelay(policy, attempt);
+            yield {
+              type: 'progress',
+              provider: inner.provider,
+              label: 'retry',
+              detail: `attempt ${attempt + 1} in ${delayMs}ms: ${messageOf(failure)}`,
+              ts: now(),
+              originalItem: { attempt: attempt + 1, delayMs, error: messageOf(failure) },
+            };
+            try {
+              await waitBeforeRetry(policy, attempt, delayMs, failure, opts);
+            } catch (error) {
+              const reason = reasonOf(error);
+              yield { type: 'cancelled', provider: inner.provider, ts: now(), originalItem: { reason } };
+              yield {
+                type: 'error',
+                provider: inner.provider,
+                code: 'interrupted',
+                message: reason,
+                ts: now(),
+                originalItem: { reason },
+              };
+              return;
+            }
+          }
+        },
+      };
+    },
+    interrupt: async reason => {
+      backoff?.abort(reason ?? 'Interrupted');
+      await inner.interrupt?.(reason);
+    },
+  });
+};
+
+function errorFromEvent(event: Extract<CoderStreamEvent, { type: 'error' }>): Error {
+  const error = new Error(event.message);
+  (error as any).code = event.code;
+  return error;
+}
+
+function sleep(ms: number, signals: Array<AbortSignal | undefined>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const active = signals.filter((signal): signal is AbortSignal => !!signal);
+    const aborted = active.find(signal => signal.aborted);
+    if (aborted) {
+      reject(createAbortError(aborted.reason));
+      return;
+    }
+    const onAbort = (event: Event) => {
+      clearTimeout(timer);
+      active.forEach(signal => signal.removeEventListener('abort', onAbort));
+      reject(createAbortError((event.target as AbortSignal).reason));
+    };
+    const timer = setTimeout(() => {
+      active.forEach(signal => signal.removeEventListener('abort', onAbort));
+      resolve();
+    }, ms);
+    active.forEach(signal => signal.addEventListener('abort', onAbort, { once: true }));
+  });
+}
+
+function createAbortError(reason?: unknown): Error {
+  return new InterruptedError(reasonOf(reason));
+}
+
+function reasonOf(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error && value.message) return value.message;
+  return 'Interrupted';
+}
+
+function messageOf(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
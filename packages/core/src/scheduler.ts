@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Run scheduler: queues runs per thread and caps global and per-provider concurrency.
+ */
+
+import { decorateThread } from './decorate.js';
+import { InterruptedError } from './errors.js';
+import { now } from './types.js';
+import type { EventIterator, Provider, RunOpts, ThreadHandle } from './types.js';
+
+/**
+ * Concurrency limits applied by a scheduler.
+ */
+export interface SchedulerOptions {
+  /** Runs allowed in flight across all providers. Unlimited by default. */
+  maxConcurrency?: number;
+  /** Runs allowed in flight per provider, on top of `maxConcurrency`. */
+  perProvider?: Partial<Record<Provider, number>>;
+}
+
+/**
+ * Point-in-time queue and wait-time metrics.
+ */
+export interface SchedulerStats {
+  running: number;
+  queued: number;
+  completed: number;
+  providers: Partial<Record<Provider, { running: number; queued: number }>>;
+  /** Time runs spent queued before they started. */
+  wait: { count: number; totalMs: number; averageMs: number; maxMs: number };
+}
+
+export interface Scheduler {
+  /** Wraps a thread so overlapping runs wait their turn instead of being rejected as busy. */
+  schedule(thread: ThreadHandle): ThreadHandle;
+  stats(): SchedulerStats;
+}
+
+interface ThreadSlot {
+  provider: Provider;
+  busy: boolean;
+}
+
+interface Ticket {
+  slot: ThreadSlot;
+  enqueuedAt: number;
+  start: (waitedMs: number) => void;
+  cancel: (reason: string) => void;
+}
+
+/**
+ * Creates a scheduler. Pass it as `createCoder(name, defaults, { scheduler })` or wrap threads with `schedule()`.
+ *
+ * Runs start in submission order, skipping runs whose thread or provider is still at capacity.
+ *
+ * @throws When a limit is lower than 1.
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const maxConcurrency = options.maxConcurrency ?? Infinity;
+  const limits = Object.entries(options.perProvider ?? {});
+  if (!(maxConcurrency >= 1) || limits.some(([, limit]) => !(limit! >= 1))) {
+    throw new Error('Scheduler concurrency limits must be at least 1.');
+  }
+
+  const queue: Ticket[] = [];
+  const runningByProvider = new Map<Provider, number>();
+  let running = 0;
+  let completed = 0;
+  const wait = { count: 0, totalMs: 0, maxMs: 0 };
+
+  const hasCapacity = (provider: Provider) =>
+    running < maxConcurrency && (runningByProvider.get(provider) ?? 0) < (options.perProvider?.[provider] ?? Infinity);
+
+  const pump = () => {
+    for (let index = 0; index < queue.length; ) {
+      const ticket = queue[index];
+      if (ticket.slot.busy || !hasCapacity(ticket.slot.provider)) {
+        index += 1;
+        continue;
+      }
+      queue.splice(index, 1);
+      ticket.slot.busy = true;
+      running += 1;
+      runningByProvider.set(ticket.slot.provider, (runningByProvider.get(ticket.slot.provider) ?? 0) + 1);
+      const waitedMs = Date.now() - ticket.enqueuedAt;
+      wait.count += 1;
+      wait.totalMs += waitedMs;
+      wait.maxMs = Math.max(wait.maxMs, waitedMs);
+      ticket.start(waitedMs);
+    }
+  };
+
+  const acquire = (slot: ThreadSlot, signal?: AbortSignal) =>
+    new Promise<{ release: () => void; waitedMs: number }>((resolve, reject) => {
+      const onAbort = () => ticket.cancel(reasonOf(signal?.reason));
+      const ticket: Ticket = {
+        slot,
+        enqueuedAt: Date.now(),
+        start: waitedMs => {
+          signal?.removeEventListener('abort', onAbort);
+          let released = false;
+          const release = () => {
+            if (released) return;
+            released = true;
+            slot.busy = false;
+            running -= 1;
+            runningByProvider.set(slot.provider, runningByProvider.get(slot.provider)! - 1);
+            completed += 1;
+            pump();
+          };
+          resolve({ release, waitedMs });
+        },
+        cancel: reason => {
+          const index = queue.indexOf(ticket);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          signal?.removeEventListener('abort', onAbort);
+          reject(new InterruptedError(reason, { provider: slot.provider }));
+        },
+      };
+      if (signal?.aborted) {
+        reject(new InterruptedError(reasonOf(signal.reason), { provider: slot.provider }));
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(ticket);
+      pump();
+    });
+
+  const schedule = (inner: ThreadHandle): ThreadHandle => {
+    const slot: ThreadSlot = { provider: inner.provider, busy: false };
+    const cancelQueued = (reason: string) => {
+      for (const ticket of queue.filter(candidate => candidate.slot === slot)) ticket.cancel(reason);
+    };
+
+    return decorateThread(inner, {
+      run: async (input, opts?: RunOpts) => {
+        const { release } = await acquire(slot, opts?.signal);
+        try {
+          return await inner.run(input, opts);
+        } finally {
+          release();
+        }
+      },
+      runStreamed: (input, opts?: RunOpts): EventIterator => ({
+        async *[Symbol.asyncIterator]() {
+          let lease: { release: () => void; waitedMs: number };
+          try {
+            lease = await acquire(slot, opts?.signal);
+          } catch (error) {
+            const reason = (error as Error).message;
+            yield { type: 'cancelled', provider: inner.provider, ts: now(), originalItem: { reason } };
+            yield {
+              type: 'error',
+              provider: inner.provider,
+              code: 'interrupted',
+              message: reason,
+              ts: now(),
+              originalItem: { reason },
+            };
+            return;
+          }
+          try {
+            if (lease.waitedMs > 0) {
+              yield {
+                type: 'progress',
+                provider: inner.provider,
+                label: 'scheduler',
+                detail: `queued for ${lease.waitedMs}ms`,
+                ts: now(),
+                originalItem: { waitedMs: lease.waitedMs },
+              };
+            }
+            yield* inner.runStreamed(input, opts);
+          } finally {
+            lease.release();
+          }
+        },
+      }),
+      interrupt: async reason => {
+        cancelQueued(reason ?? 'Interrupted');
+        await inner.interrupt?.(reason);
+      },
+    });
+  };
+
+  const stats = (): SchedulerStats => {
+    const providers: SchedulerStats['providers'] = {};
+    for (const [provider, count] of runningByProvider) {
+      providers[provider] = { running: count, queued: 0 };
+    }
+    for (const ticket of queue) {
+      const entry = (providers[ticket.slot.provider] ??= { running: 0, queued: 0 });
+      entry.queued += 1;
+    }
+    return {
+      running,
+      queued: queue.length,
+      completed,
+      providers,
+      wait: { ...wait, averageMs: wait.count ? Math.round(wait.totalMs / wait.count) : 0 },
+    };
+  };
+
+  return { schedule, stats };
+}
+
+function reasonOf(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error && value.message) return value.message;
+  return 'Interrupted';
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Workspace snapshot stores shared by checkpoints and run change tracking.
+ *
+ * Git workspaces are snapshotted into commits on shadow refs (`refs/headless-coder/checkpoints/*`) built through a
+ * temporary index, so the user's index, stash and branches are never touched. Other directories are copied into the
+ * OS temp directory.
+ */
+
+import { cp, mkdir, mkdtemp, readFile, readdir, rm, rmdir, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { SDK_IDENTITY, git, writeWorkTree } from './git.js';
+import { createUnifiedPatch } from './patch.js';
+import type { ChangedFile } from './types.js';
+
+const DEFAULT_IGNORE = ['.git', 'node_modules'];
+const REF_PREFIX = 'refs/headless-coder/checkpoints';
+const GIT_STATUS_OPS: Record<string, ChangedFile['op']> = { A: 'create', D: 'delete' };
+
+export interface SnapshotStore {
+  strategy: 'git' | 'copy';
+  snapshot(id: string): Promise<string>;
+  diff(location: string): Promise<string>;
+  /** Per-file changes from the snapshot to the current workspace, sorted by path. */
+  changes(location: string): Promise<ChangedFile[]>;
+  restore(location: string): Promise<void>;
+  discard(location: string): Promise<void>;
+}
+
+export interface SnapshotStoreOptions {
+  strategy?: 'auto' | 'git' | 'copy';
+  ignore?: string[];
+}
+
+export async function createSnapshotStore(cwd: string, options: SnapshotStoreOptions): Promise<SnapshotStore> {
+  const strategy = options.strategy ?? 'auto';
+  if (strategy !== 'copy') {
+    const isGit = await git(cwd, ['rev-parse', '--is-inside-work-tree']).then(
+      output => output.trim() === 'true',
+      () => false,
+    );
+    if (isGit) return createGitStore(cwd);
+    if (strategy === 'git') {
+      throw new Error(`Snapshot strategy "git" requires a git work tree: ${cwd}`);
+    }
+  }
+  return createCopyStore(cwd, options.ignore ?? DEFAULT_IGNORE);
+}
+
+function createGitStore(cwd: string): SnapshotStore {
+  const writeTree = () => writeWorkTree(cwd);
+
+  return {
+    strategy: 'git',
+    snapshot: async id => {
+      const tree = await writeTree();
+      const head = await git(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(
+        output => output.trim(),
+        () => '',
+      );
+      const parents = head ? ['-p', head] : [];
+      const message = `headless-coder checkpoint ${id}`;
+      // Shadow commits carry a fixed identity so snapshots work on machines without git user config.
+      const commit = (await git(cwd, ['commit-tree', tree, ...parents, '-m', message], SDK_IDENTITY)).trim();
+      const ref = `${REF_PREFIX}/${id}`;
+      await git(cwd, ['update-ref', ref, commit]);
+      return ref;
+    },
+    diff: async ref => {
+      const tree = await writeTree();
+      return git(cwd, ['diff', '--no-color', '--binary', '--relative', `${ref}^{tree}`, tree]);
+    },
+    changes: async ref => {
+      const tree = await writeTree();
+      const range = [`${ref}^{tree}`, tree];
+      const status = await git(cwd, ['diff', '--name-status', '--no-renames', '-z', '--relative', ...range]);
+      const fields = status.split('\0').filter(Boolean);
+      const changes: ChangedFile[] = [];
+      for (let index = 0; index + 1 < fields.length; index += 2) {
+        const file = fields[index + 1];
+        const pathspec = `:(literal)${file}`;
+        const patch = await git(cwd, ['diff', '--no-color', '--binary', '--relative', ...range, '--', pathspec]);
+        changes.push({ path: file, op: GIT_STATUS_OPS[fields[index]] ?? 'modify', patch });
+      }
+      return changes;
+    },
+    restore: async ref => {
+      const current = await writeTree();
+      const diff = await git(cwd, ['diff', '--name-only', '-z', '--relative', '--diff-filter=A', ref, current]);
+      const added = diff.split('\0').filter(Boolean);
+      for (const file of added) {
+        await rm(path.join(cwd, file), { force: true });
+      }
+      // Git does not track directories, so checkout-index below recreates any the snapshot still needs.
+      await pruneEmptyDirectories(cwd, added, async () => false);
+      const dir = await mkdtemp(path.join(tmpdir(), 'headless-coder-index-'));
+      const env = { GIT_INDEX_FILE: path.join(dir, 'index') };
+      try {
+        await git(cwd, ['read-tree', ref], env);
+        const files = await git(cwd, ['ls-files', '-z'], env);
+        await git(cwd, ['checkout-index', '-f', '-z', '--stdin'], env, files);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    },
+    discard: async ref => {
+      await git(cwd, ['update-ref', '-d', ref]).catch(() => {});
+    },
+  };
+}
+
+function createCopyStore(cwd: string, ignore: string[]): SnapshotStore {
+  const root = path.join(tmpdir(), 'headless-coder-checkpoints');
+  const include = (source: string, base: string) =>
+    !path.relative(base, source).split(path.sep).some(segment => ignore.includes(segment));
+
+  const changes = async (location: string): Promise<ChangedFile[]> => {
+    const [before, after] = await Promise.all([listFiles(location, ignore), listFiles(cwd, ignore)]);
+    const files = [...new Set([...before, ...after])].sort();
+    const result: ChangedFile[] = [];
+    for (const file of files) {
+      const previous = before.includes(file) ? await readFile(path.join(location, file)) : undefined;
+      const current = after.includes(file) ? await readFile(path.join(cwd, file)) : undefined;
+      if (previous && current && previous.equals(current)) continue;
+      const portable = file.split(path.sep).join('/');
+      let patch: string;
+      if (isBinary(previous) || isBinary(current)) {
+        const from = previous ? `a/${portable}` : '/dev/null';
+        const to = current ? `b/${portable}` : '/dev/null';
+        patch = `Binary files ${from} and ${to} differ\n`;
+      } else {
+        patch = createUnifiedPatch(portable, previous?.toString('utf8'), current?.toString('utf8'));
+      }
+      result.push({ path: portable, op: !previous ? 'create' : !current ? 'delete' : 'modify', patch });
+    }
+    return result;
+  };
+
+  return {
+    strategy: 'copy',
+    snapshot: async id => {
+      const location = path.join(root, id);
+      await mkdir(root, { recursive: true });
+      await cp(cwd, location, { recursive: true, filter: source => include(source, cwd) });
+      return location;
+    },
+    diff: async location => (await changes(location)).map(change => change.patch).join(''),
+    changes: async location => changes(location),
+    restore: async location => {
+      const snapshot = new Set(await listFiles(location, ignore));
+      const added = (await listFiles(cwd, ignore)).filter(file => !snapshot.has(file));
+      for (const file of added) {
+        await rm(path.join(cwd, file), { force: true });
+      }
+      await pruneEmptyDirectories(cwd, added, dir => stat(path.join(location, dir)).then(() => true, () => false));
+      await cp(location, cwd, { recursive: true, force: true });
+    },
+    discard: async location => {
+      await rm(location, { recursive: true, force: true });
+    },
+  };
+}
+
+async function listFiles(root: string, ignore: string[], relative = ''): Promise<string[]> {
+  const entries = await readdir(path.join(root, relative), { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (ignore.includes(entry.name)) continue;
+    const child = path.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(root, ignore, child)));
+    } else if (entry.isFile()) {
+      files.push(child);
+    }
+  }
+  return files;
+}
+
+/**
+ * Removes the directories holding `files` (relative to `root`) that are now empty, deepest first. Directories for which
+ * `keep` resolves true are left in place.
+ */
+async function pruneEmptyDirectories(
+  root: string,
+  files: string[],
+  keep: (dir: string) => Promise<boolean>,
+): Promise<void> {
+  const dirs = new Set<string>();
+  for (const file of files) {
+    for (let dir = path.dirname(file); dir !== '.'; dir = path.dirname(dir)) dirs.add(dir);
+  }
+  for (const dir of [...dirs].sort((a, b) => b.length - a.length)) {
+    if (await keep(dir)) continue;
+    // rmdir only removes empty directories, so ones still holding files survive.
+    await rmdir(path.join(root, dir)).catch(() => {});
+  }
+}
+
+function isBinary(buffer: Buffer | undefined): boolean {
+  return !!buffer && buffer.subarray(0, 8000).includes(0);
+}
+
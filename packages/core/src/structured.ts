@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Typed structured-output runs: infers `RunResult.json` from a const JSON Schema or a parse function.
+ */
+
+import type { PromptInput, RunOpts, RunResult, SchemaValidationIssue, ThreadHandle } from './types.js';
+import { SchemaViolationError } from './errors.js';
+import { validateAgainstSchema } from './validation.js';
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type FromObjectSchema<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } & {
+        -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]>;
+      } & (S extends { additionalProperties: false } ? {} : { [key: string]: unknown })
+    >
+  : Record<string, unknown>;
+
+type FromTypeName<N, S> = N extends 'string'
+  ? string
+  : N extends 'number' | 'integer'
+    ? number
+    : N extends 'boolean'
+      ? boolean
+      : N extends 'null'
+        ? null
+        : N extends 'array'
+          ? S extends { items: infer I }
+            ? FromSchema<I>[]
+            : unknown[]
+          : N extends 'object'
+            ? FromObjectSchema<S>
+            : unknown;
+
+/**
+ * Static type described by a JSON Schema literal (declare the schema `as const` or pass it inline).
+ *
+ * Covers `type` (including type arrays), `properties`/`required`/`additionalProperties`, `items`, `enum`, `const`,
+ * `anyOf` and `oneOf`; anything else widens to `unknown`.
+ */
+export type FromSchema<S> = S extends { const: infer C }
+  ? C
+  : S extends { enum: readonly (infer E)[] }
+    ? E
+    : S extends { anyOf: readonly (infer A)[] }
+      ? FromSchema<A>
+      : S extends { oneOf: readonly (infer A)[] }
+        ? FromSchema<A>
+        : S extends { type: readonly (infer N)[] }
+          ? FromTypeName<N, S>
+          : S extends { type: infer N }
+            ? FromTypeName<N, S>
+            : unknown;
+
+/**
+ * Run options for runStructured(); `outputSchema` is supplied separately.
+ */
+export interface StructuredRunOpts<T> extends Omit<RunOpts, 'outputSchema'> {
+  /** Validates and converts the JSON payload (for example `zodSchema.parse`); throwing rejects the run. */
+  parse?: (value: unknown) => T;
+}
+
+/**
+ * Runs a turn with `outputSchema` and returns a result whose `json` is typed and guaranteed to conform.
+ *
+ * Without `parse`, the payload is checked against the schema (reusing `RunResult.validation` when the coder already
+ * validated it) and `T` is inferred from the schema literal.
+ *
+ * @throws An error with code `schema_violation` (carrying `validation` and `result`) when the payload does not
+ * conform or `parse` rejects it.
+ */
+export async function runStructured<T>(
+  thread: ThreadHandle,
+  input: PromptInput,
+  schema: object,
+  opts: StructuredRunOpts<T> & { parse: (value: unknown) => T },
+): Promise<RunResult<T>>;
+export async function runStructured<const S extends object>(
+  thread: ThreadHandle,
+  input: PromptInput,
+  schema: S,
+  opts?: StructuredRunOpts<FromSchema<S>>,
+): Promise<RunResult<FromSchema<S>>>;
+export async function runStructured(
+  thread: ThreadHandle,
+  input: PromptInput,
+  schema: object,
+  opts: StructuredRunOpts<unknown> = {},
+): Promise<RunResult> {
+  const { parse, ...runOpts } = opts;
+  const result = await thread.run(input, { ...runOpts, outputSchema: schema });
+  if (parse) {
+    try {
+      return { ...result, json: parse(result.json) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw createSchemaViolationError([{ path: '', message }], result, error);
+    }
+  }
+  const errors = result.validation ? result.validation.errors : validateAgainstSchema(schema, result.json);
+  if (errors.length) throw createSchemaViolationError(errors, result);
+  return result;
+}
+
+function createSchemaViolationError(
+  errors: SchemaValidationIssue[],
+  result: RunResult,
+  cause?: unknown,
+): SchemaViolationError {
+  const summary = errors.map(error => `${error.path || '(root)'} ${error.message}`).join('; ');
+  const error = new SchemaViolationError(`Structured output did not match the schema: ${summary}`, { cause });
+  (error as any).validation = errors;
+  (error as any).result = result;
+  return error;
+}
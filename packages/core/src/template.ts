@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Prompt templates: typed variables, partials and directives that inline files from the working
+ * directory, rendered into a PromptInput plus a report of what went into it.
+ */
+
+import { readdir, readFile, realpath } from 'node:fs/promises';
+import * as path from 'node:path';
+import { decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import { lookupPath } from './placeholders.js';
+import type { EventIterator, InlinedFile, PromptInput, RenderedPrompt } from './types.js';
+
+const DEFAULT_LIMITS: Required<PromptTemplateLimits> = { maxFileBytes: 32_768, maxTotalBytes: 131_072, maxFiles: 50 };
+const MAX_PARTIAL_DEPTH = 10;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+const PARTIAL = /\{\{\s*>\s*([\w$.-]+)\s*\}\}/g;
+// {{@file path}}, {{@glob pattern}} or {{variable.path}}; partials are expanded beforehand. Directive arguments may
+// contain `{a,b}` groups.
+const PLACEHOLDER = /\{\{\s*(?:@(file|glob)\s+((?:[^{}]|\{[^{}]*\})+?)|([\w$.-]+))\s*\}\}/g;
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+/**
+ * Declaration of a template variable. Variables are required unless they have a `default` or `required: false`.
+ */
+export interface PromptVariable {
+  type: PromptVariableType;
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+type VariableValue<T extends PromptVariableType> = T extends 'string'
+  ? string
+  : T extends 'number'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends 'array'
+        ? unknown[]
+        : Record<string, unknown>;
+
+type IsOptional<V extends PromptVariable> = V extends { required: false }
+  ? true
+  : V extends { default: {} }
+    ? true
+    : false;
+
+/**
+ * Values accepted by render() for a set of variable declarations.
+ */
+export type PromptVariableValues<V extends Record<string, PromptVariable>> = {
+  [K in keyof V as IsOptional<V[K]> extends true ? never : K]: VariableValue<V[K]['type']>;
+} & {
+  [K in keyof V as IsOptional<V[K]> extends true ? K : never]?: VariableValue<V[K]['type']>;
+};
+
+/**
+ * Size limits for inlined files, in bytes of UTF-8 text.
+ */
+export interface PromptTemplateLimits {
+  /** Longest excerpt of a single file. Defaults to 32 KiB. */
+  maxFileBytes?: number;
+  /** Budget for all inlined files together; later files are cut or omitted. Defaults to 128 KiB. */
+  maxTotalBytes?: number;
+  /** Files a single `@glob` may inline. Defaults to 50. */
+  maxFiles?: number;
+}
+
+export interface PromptTemplateDefinition<V extends Record<string, PromptVariable>> {
+  name?: string;
+  /** Template text, or role messages whose contents are templated. */
+  template: string | Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
+  variables?: V;
+  /** Snippets included with `{{> name}}`; partials may use variables, directives and other partials. */
+  partials?: Record<string, string>;
+  limits?: PromptTemplateLimits;
+  /**
+   * Joins message templates into one `role: content` string, so every adapter receives identical text instead of
+   * flattening roles its own way.
+   */
+  flatten?: boolean;
+}
+
+export interface PromptRenderOptions {
+  /** Directory `@file` and `@glob` paths are resolved against; they may not leave it. Defaults to the process cwd. */
+  workingDirectory?: string;
+}
+
+export interface PromptTemplate<V extends Record<string, PromptVariable>> {
+  readonly name?: string;
+  readonly variables: V;
+  /**
+   * Renders the template. Pass the result as `thread.run(rendered.input, { prompt: rendered })` to report it on the
+   * run's `init` event.
+   *
+   * @throws When a variable is missing, has the wrong type or is not declared, a partial is unknown or recursive, or
+   * an inlined path is missing or outside `workingDirectory`.
+   */
+  render(values: PromptVariableValues<V>, options?: PromptRenderOptions): Promise<RenderedPrompt>;
+}
+
+/**
+ * Creates a reusable prompt template.
+ *
+ * Placeholders: `{{name}}` or `{{name.path}}` for variables (objects render as JSON), `{{> partial}}` for partials,
+ * `{{@file path}}` to inline one file and `{{@glob pattern}}` to inline every matching file (`*`, `**`, `?` and
+ * `{a,b}` are supported). Inlined files are fenced and labelled with their path.
+ */
+export function createPromptTemplate<const V extends Record<string, PromptVariable> = {}>(
+  definition: PromptTemplateDefinition<V>,
+): PromptTemplate<V> {
+  const declared = (definition.variables ?? {}) as V;
+  const limits = { ...DEFAULT_LIMITS, ...definition.limits };
+
+  return {
+    name: definition.name,
+    variables: declared,
+    async render(values, options = {}) {
+      const variables = resolveVariables(declared, values as Record<string, unknown>);
+      const inliner = createInliner(path.resolve(options.workingDirectory ?? process.cwd()), limits);
+      const renderText = async (text: string) =>
+        renderPlaceholders(expandPartials(text, definition.partials ?? {}), variables, declared, inliner);
+
+      let input: PromptInput;
+      if (typeof definition.template === 'string') {
+        input = await renderText(definition.template);
+      } else {
+        const messages = [];
+        for (const message of definition.template) {
+          messages.push({ role: message.role, content: await renderText(message.content) });
+        }
+        input = definition.flatten
+          ? messages.map(message => `${message.role}: ${message.content}`).join('\n\n')
+          : messages;
+      }
+      return { template: definition.name, input, variables, files: inliner.files };
+    },
+  };
+}
+
+/**
+ * Thread decorator that adds RunOpts.prompt to the stream's `init` event.
+ */
+export const promptReportDecorator: ThreadDecorator = inner =>
+  decorateThread(inner, {
+    runStreamed: (input, opts): EventIterator => {
+      const prompt = opts?.prompt;
+      if (!prompt) return inner.runStreamed(input, opts);
+      return {
+        async *[Symbol.asyncIterator]() {
+          for await (const event of inner.runStreamed(input, opts)) {
+            yield event.type === 'init' ? { ...event, prompt } : event;
+          }
+        },
+      };
+    },
+  });
+
+function resolveVariables(declared: Record<string, PromptVariable>, values: Record<string, unknown>) {
+  const resolved: Record<string, unknown> = {};
+  for (const name of Object.keys(values)) {
+    if (!(name in declared)) throw new Error(`Unknown prompt variable "${name}".`);
+  }
+  for (const [name, variable] of Object.entries(declared)) {
+    const value = values[name] ?? variable.default;
+    if (value === undefined) {
+      if (variable.required === false) continue;
+      throw new Error(`Missing prompt variable "${name}".`);
+    }
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (actual !== variable.type) {
+      throw new Error(`Prompt variable "${name}" must be of type ${variable.type}, got ${actual}.`);
+    }
+    resolved[name] = value;
+  }
+  return resolved;
+}
+
+function expandPartials(text: string, partials: Record<string, string>, depth = 0): string {
+  return text.replace(PARTIAL, (_, name: string) => {
+    const partial = partials[name];
+    if (partial === undefined) throw new Error(`Unknown prompt partial "${name}".`);
+    if (depth >= MAX_PARTIAL_DEPTH) throw new Error(`Prompt partial "${name}" is nested too deeply (recursive?).`);
+    return expandPartials(partial, partials, depth + 1);
+  });
+}
+
+async function renderPlaceholders(
+  text: string,
+  variables: Record<string, unknown>,
+  declared: Record<string, PromptVariable>,
+  inliner: Inliner,
+): Promise<string> {
+  let output = '';
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const [placeholder, directive, argument, variable] = match;
+    output += text.slice(last, match.index);
+    last = match.index! + placeholder.length;
+    if (directive === 'file') {
+      output += await inliner.file(argument.trim());
+    } else if (directive === 'glob') {
+      output += await inliner.glob(argument.trim());
+    } else if (variable) {
+      if (!(variable.split('.')[0] in declared)) throw new Error(`Template uses undeclared variable "${variable}".`);
+      output += formatValue(lookupPath(variables, variable));
+    }
+  }
+  return output + text.slice(last);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+}
+
+interface Inliner {
+  files: InlinedFile[];
+  file(relativePath: string): Promise<string>;
+  glob(pattern: string): Promise<string>;
+}
+
+function createInliner(root: string, limits: Required<PromptTemplateLimits>): Inliner {
+  const files: InlinedFile[] = [];
+  let remaining = limits.maxTotalBytes;
+  let realRoot: Promise<string> | undefined;
+
+  const resolveInside = (relativePath: string) => {
+    const absolute = path.resolve(root, relativePath);
+    const relative = path.relative(root, absolute);
+    if (isOutside(relative)) throw new Error(`Cannot inline ${relativePath}: outside the working directory.`);
+    return { absolute, relative: relative.split(path.sep).join('/') };
+  };
+
+  const inline = async (relativePath: string): Promise<string> => {
+    const { absolute, relative } = resolveInside(relativePath);
+    let realBase: string;
+    let target: string;
+    try {
+      realRoot ??= realpath(root);
+      [realBase, target] = await Promise.all([realRoot, realpath(absolute)]);
+    } catch (error) {
+      throw new Error(`Cannot inline ${relativePath}: ${(error as Error).message}`, { cause: error });
+    }
+    // A symlink inside the root may still point elsewhere, so its target is checked against the real root too.
+    if (isOutside(path.relative(realBase, target))) {
+      throw new Error(`Cannot inline ${relativePath}: outside the working directory.`);
+    }
+    let content: Buffer;
+    try {
+      content = await readFile(target);
+    } catch (error) {
+      throw new Error(`Cannot inline ${relativePath}: ${(error as Error).message}`, { cause: error });
+    }
+    if (content.includes(0)) return `File: ${relative}\n(binary file skipped)`;
+    const included = Math.min(content.length, limits.maxFileBytes, remaining);
+    remaining -= included;
+    const truncated = included < content.length;
+    files.push({ path: relative, bytes: content.length, includedBytes: included, truncated });
+    const text = content.subarray(0, included).toString('utf8');
+    const note = truncated ? `\n[truncated: ${included} of ${content.length} bytes shown]` : '';
+    return `File: ${relative}\n\`\`\`\n${text}${text.endsWith('\n') || !text ? '' : '\n'}\`\`\`${note}`;
+  };
+
+  return {
+    files,
+    file: relativePath => inline(relativePath),
+    async glob(pattern) {
+      const matcher = globToRegExp(pattern);
+      const matches = (await listFiles(root)).filter(file => matcher.test(file));
+      if (!matches.length) return `(no files match ${pattern})`;
+      const sections: string[] = [];
+      for (const file of matches.slice(0, limits.maxFiles)) {
+        if (remaining <= 0) break;
+        sections.push(await inline(file));
+      }
+      const omitted = matches.length - sections.length;
+      if (omitted > 0) sections.push(`[${omitted} more file(s) matching ${pattern} omitted: size limit]`);
+      return sections.join('\n\n');
+    },
+  };
+}
+
+function isOutside(relative: string): boolean {
+  return relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative);
+}
+
+async function listFiles(root: string, prefix = ''): Promise<string[]> {
+  const entries = await readdir(path.join(root, prefix), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) files.push(...(await listFiles(root, relative)));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/^\.\//, '');
+  let source = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      const slash = pattern[index + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', index);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern
+        .slice(index + 1, end)
+        .split(',')
+        .map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'));
+      source += `(?:${options.join('|')})`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,471 @@
+/**
+ * @fileoverview Transcript store: records every input, normalized event and RunResult per thread for audits, with
+ * in-memory, JSONL and SQLite backends and Markdown/JSON/HTML export.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readdir, readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import { classifyError } from './errors.js';
+import { now } from './types.js';
+import type { CoderStreamEvent, EventIterator, PromptInput, Provider, RunResult, UsageStats } from './types.js';
+
+/**
+ * Fields shared by every transcript record.
+ */
+export interface TranscriptRecordBase {
+  /** Provider thread id, or `unassigned-<uuid>` when the provider never reported one. */
+  threadId: string;
+  /** Groups the records of one run()/runStreamed() call. */
+  runId: string;
+  provider: Provider;
+  ts: number;
+}
+
+export type TranscriptRecordData =
+  | { type: 'input'; mode: 'run' | 'stream'; input: PromptInput }
+  | { type: 'event'; event: CoderStreamEvent }
+  | { type: 'result'; result: RunResult }
+  | { type: 'error'; error: { message: string; code: string } };
+
+/**
+ * One entry of a thread transcript. Provider-native payloads (`RunResult.raw`, `originalItem`) are not recorded.
+ */
+export type TranscriptRecord = TranscriptRecordBase & TranscriptRecordData;
+
+/**
+ * Pluggable persistence for transcript records.
+ */
+export interface TranscriptStore {
+  /** Appends one record; records of a thread are read back in append order. */
+  append(record: TranscriptRecord): Promise<void>;
+  /** Records of one thread, oldest first; empty when the thread is unknown. */
+  read(threadId: string): Promise<TranscriptRecord[]>;
+  /** Ids of every thread with at least one record. */
+  threads(): Promise<string[]>;
+}
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+/**
+ * Minimal synchronous SQLite API shared by `better-sqlite3` and `node:sqlite` (`DatabaseSync`).
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): { run(...params: unknown[]): unknown; all(...params: unknown[]): unknown[] };
+}
+
+/**
+ * Called when the store fails to append a record. The run carries on; the record is lost.
+ */
+export type TranscriptErrorHandler = (error: unknown, record: TranscriptRecord) => void;
+
+/**
+ * Thread decorator that appends inputs, events, results and failures to `store`.
+ *
+ * Records are held back until the provider reports the thread id (fresh threads learn it during their first run), so
+ * every record is stored under the id `resumeThread()` accepts. Store failures never change the outcome of a run: they
+ * go to `onError`, or to a single process warning when no handler is given.
+ */
+export function transcriptDecorator(store: TranscriptStore, onError?: TranscriptErrorHandler): ThreadDecorator {
+  let warned = false;
+  const report: TranscriptErrorHandler =
+    onError ??
+    (error => {
+      if (warned) return;
+      warned = true;
+      process.emitWarning(`Transcript store failed to append a record: ${(error as Error)?.message ?? error}`);
+    });
+
+  return inner => {
+    let fallbackId: string | undefined;
+
+    const recorder = () => {
+      const runId = randomUUID();
+      let threadId = inner.id;
+      let pending: Array<TranscriptRecordData & { ts: number }> = [];
+      const flush = async () => {
+        if (!threadId) return;
+        const batch = pending;
+        pending = [];
+        for (const data of batch) {
+          const record: TranscriptRecord = { ...data, threadId, runId, provider: inner.provider };
+          try {
+            await store.append(record);
+          } catch (error) {
+            report(error, record);
+          }
+        }
+      };
+      return {
+        add: async (data: TranscriptRecordData, knownId?: string) => {
+          threadId ??= knownId ?? inner.id;
+          pending.push({ ...data, ts: now() });
+          await flush();
+        },
+        finish: async (knownId?: string) => {
+          threadId ??= knownId ?? inner.id ?? (fallbackId ??= `unassigned-${randomUUID()}`);
+          await flush();
+        },
+      };
+    };
+
+    return decorateThread(inner, {
+      run: async (input, opts) => {
+        const record = recorder();
+        await record.add({ type: 'input', mode: 'run', input });
+        try {
+          const result = await inner.run(input, opts);
+          const { raw: _raw, ...recorded } = result;
+          await record.add({ type: 'result', result: recorded }, result.threadId);
+          await record.finish();
+          return result;
+        } catch (error) {
+          await record.add({ type: 'error', error: describeError(error) });
+          await record.finish();
+          throw error;
+        }
+      },
+      runStreamed: (input, opts): EventIterator => ({
+        async *[Symbol.asyncIterator]() {
+          const record = recorder();
+          await record.add({ type: 'input', mode: 'stream', input });
+          try {
+            for await (const event of inner.runStreamed(input, opts)) {
+              const { originalItem: _originalItem, ...recorded } = event;
+              await record.add(
+                { type: 'event', event: recorded as CoderStreamEvent },
+                event.type === 'init' ? event.threadId : undefined,
+              );
+              yield event;
+            }
+          } catch (error) {
+            await record.add({ type: 'error', error: describeError(error) });
+            throw error;
+          } finally {
+            await record.finish();
+          }
+        },
+      }),
+    });
+  };
+}
+
+/**
+ * In-memory store, for tests and short-lived processes. Records are kept in serialised form, like the other backends.
+ */
+export function createMemoryTranscriptStore(): TranscriptStore {
+  const records = new Map<string, string[]>();
+  return {
+    async append(record) {
+      const list = records.get(record.threadId) ?? [];
+      list.push(JSON.stringify(record));
+      records.set(record.threadId, list);
+    },
+    async read(threadId) {
+      return (records.get(threadId) ?? []).map(line => JSON.parse(line) as TranscriptRecord);
+    },
+    async threads() {
+      return [...records.keys()];
+    },
+  };
+}
+
+/**
+ * Stores each thread as `<directory>/<threadId>.jsonl`, one record per line.
+ */
+export function createJsonlTranscriptStore(directory: string): TranscriptStore {
+  const root = path.resolve(directory);
+  const fileFor = (threadId: string) => path.join(root, `${encodeURIComponent(threadId)}.jsonl`);
+  let ready: Promise<unknown> | undefined;
+  // Appends are chained so records land in call order even when callers do not await them.
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    append(record) {
+      const write = queue.then(async () => {
+        ready ??= mkdir(root, { recursive: true });
+        await ready;
+        await appendFile(fileFor(record.threadId), `${JSON.stringify(record)}\n`);
+      });
+      queue = write.catch(() => undefined);
+      return write;
+    },
+    async read(threadId) {
+      await queue;
+      let content: string;
+      try {
+        content = await readFile(fileFor(threadId), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      return content
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as TranscriptRecord);
+    },
+    async threads() {
+      await queue;
+      let files: string[];
+      try {
+        files = await readdir(root);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      return files.filter(file => file.endsWith('.jsonl')).map(file => decodeURIComponent(file.slice(0, -6)));
+    },
+  };
+}
+
+/**
+ * Stores records in a SQLite table, creating it when missing. Pass an open database from `better-sqlite3` or
+ * `node:sqlite`; the store does not close it.
+ *
+ * @throws When `table` is not a plain SQL identifier.
+ */
+export function createSqliteTranscriptStore(db: SqliteDatabase, options: { table?: string } = {}): TranscriptStore {
+  const table = options.table ?? 'headless_coder_transcripts';
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid transcript table name "${table}".`);
+  }
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_id TEXT NOT NULL,
+      run_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      record TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ${table}_thread ON ${table} (thread_id, seq);`,
+  );
+  const insert = db.prepare(`INSERT INTO ${table} (thread_id, run_id, type, ts, record) VALUES (?, ?, ?, ?, ?)`);
+  const select = db.prepare(`SELECT record FROM ${table} WHERE thread_id = ? ORDER BY seq`);
+  const threads = db.prepare(`SELECT thread_id FROM ${table} GROUP BY thread_id ORDER BY MIN(seq)`);
+
+  return {
+    async append(record) {
+      insert.run(record.threadId, record.runId, record.type, record.ts, JSON.stringify(record));
+    },
+    async read(threadId) {
+      return (select.all(threadId) as Array<{ record: string }>).map(row => JSON.parse(row.record) as TranscriptRecord);
+    },
+    async threads() {
+      return (threads.all() as Array<{ thread_id: string }>).map(row => row.thread_id);
+    },
+  };
+}
+
+/**
+ * Records of one run, grouped by `runId`.
+ */
+export interface TranscriptRun {
+  runId: string;
+  mode?: 'run' | 'stream';
+  startedAt: number;
+  input?: PromptInput;
+  events: CoderStreamEvent[];
+  result?: RunResult;
+  error?: { message: string; code: string };
+}
+
+/**
+ * Renders the records of one thread (as returned by `TranscriptStore.read()`) as Markdown, JSON or HTML.
+ */
+export function exportTranscript(records: TranscriptRecord[], format: TranscriptFormat): string {
+  const threadId = records[0]?.threadId;
+  const provider = records[0]?.provider;
+  const runs = groupRuns(records);
+  if (format === 'json') {
+    return `${JSON.stringify({ threadId, provider, runs }, null, 2)}\n`;
+  }
+  const title = `Transcript ${threadId ?? '(empty)'}`;
+  return format === 'html' ? renderHtml(title, provider, runs) : renderMarkdown(title, provider, runs);
+}
+
+/**
+ * Groups records into runs, in the order the runs started.
+ */
+export function groupRuns(records: TranscriptRecord[]): TranscriptRun[] {
+  const runs = new Map<string, TranscriptRun>();
+  for (const record of records) {
+    let run = runs.get(record.runId);
+    if (!run) {
+      run = { runId: record.runId, startedAt: record.ts, events: [] };
+      runs.set(record.runId, run);
+    }
+    switch (record.type) {
+      case 'input':
+        run.mode = record.mode;
+        run.input = record.input;
+        break;
+      case 'event':
+        run.events.push(record.event);
+        break;
+      case 'result':
+        run.result = record.result;
+        break;
+      case 'error':
+        run.error = record.error;
+        break;
+    }
+  }
+  return [...runs.values()];
+}
+
+/**
+ * Human-readable digest of one run, shared by the exporters and handoff().
+ */
+export interface RunSummary {
+  heading: string;
+  input: string;
+  activity: string[];
+  reply?: string;
+  json?: string;
+  usage?: string;
+  error?: string;
+}
+
+/**
+ * Digests a run; `index` numbers its heading.
+ */
+export function summarizeRun(run: TranscriptRun, index: number): RunSummary {
+  const activity: string[] = [];
+  let streamed = '';
+  let reply: string | undefined;
+  let usage: UsageStats | undefined = run.result?.usage;
+  for (const event of run.events) {
+    switch (event.type) {
+      case 'message':
+        if (event.role !== 'assistant' || !event.text) break;
+        if (event.delta) streamed += event.text;
+        else reply = event.text;
+        break;
+      case 'tool_use':
+        activity.push(`tool call ${event.name}${event.args === undefined ? '' : ` ${JSON.stringify(event.args)}`}`);
+        break;
+      case 'tool_result': {
+        const status = event.error ? 'failed' : event.exitCode != null ? `exit ${event.exitCode}` : 'done';
+        activity.push(`tool result ${event.name} (${status})`);
+        break;
+      }
+      case 'file_change':
+        activity.push(`file ${event.op ?? 'change'} ${event.path ?? ''}`.trimEnd());
+        break;
+      case 'plan_update':
+        if (event.text) activity.push(`plan: ${event.text}`);
+        break;
+      case 'permission':
+        activity.push(`permission ${event.decision ?? 'requested'}`);
+        break;
+      case 'progress':
+        activity.push(`progress ${[event.label, event.detail].filter(Boolean).join(': ')}`);
+        break;
+      case 'usage':
+        usage ??= event.stats;
+        break;
+      case 'error':
+        activity.push(`error ${event.code ? `[${event.code}] ` : ''}${event.message}`);
+        break;
+      case 'cancelled':
+        activity.push('cancelled');
+        break;
+    }
+  }
+  const text = run.result?.text ?? reply ?? (streamed || undefined);
+  const json = run.result?.json;
+  return {
+    heading: `Run ${index + 1} (${run.mode ?? 'run'}, ${new Date(run.startedAt).toISOString()})`,
+    input: renderInput(run.input),
+    activity,
+    reply: text?.trim(),
+    json: json === undefined ? undefined : JSON.stringify(json, null, 2),
+    usage: usage && describeUsage(usage),
+    error: run.error && `${run.error.code}: ${run.error.message}`,
+  };
+}
+
+function renderMarkdown(title: string, provider: Provider | undefined, runs: TranscriptRun[]): string {
+  const parts = [`# ${title}`, `- Provider: ${provider ?? 'unknown'}\n- Runs: ${runs.length}`];
+  runs.forEach((run, index) => {
+    const summary = summarizeRun(run, index);
+    parts.push(`## ${summary.heading}`, `**Input**\n\n${quote(summary.input)}`);
+    if (summary.activity.length) {
+      parts.push(`**Activity**\n\n${summary.activity.map(line => `- ${line}`).join('\n')}`);
+    }
+    if (summary.reply) parts.push(`**Reply**\n\n${summary.reply}`);
+    if (summary.json) parts.push(`**Structured output**\n\n\`\`\`json\n${summary.json}\n\`\`\``);
+    if (summary.usage) parts.push(`**Usage:** ${summary.usage}`);
+    if (summary.error) parts.push(`**Failed:** ${summary.error}`);
+  });
+  return `${parts.join('\n\n')}\n`;
+}
+
+function renderHtml(title: string, provider: Provider | undefined, runs: TranscriptRun[]): string {
+  const sections = runs.map((run, index) => {
+    const summary = summarizeRun(run, index);
+    const parts = [
+      `<h2>${escapeHtml(summary.heading)}</h2>`,
+      `<h3>Input</h3>\n<pre>${escapeHtml(summary.input)}</pre>`,
+    ];
+    if (summary.activity.length) {
+      const items = summary.activity.map(line => `<li>${escapeHtml(line)}</li>`).join('\n');
+      parts.push(`<h3>Activity</h3>\n<ul>\n${items}\n</ul>`);
+    }
+    if (summary.reply) parts.push(`<h3>Reply</h3>\n<pre>${escapeHtml(summary.reply)}</pre>`);
+    if (summary.json) parts.push(`<h3>Structured output</h3>\n<pre>${escapeHtml(summary.json)}</pre>`);
+    if (summary.usage) parts.push(`<p><strong>Usage:</strong> ${escapeHtml(summary.usage)}</p>`);
+    if (summary.error) parts.push(`<p class="error"><strong>Failed:</strong> ${escapeHtml(summary.error)}</p>`);
+    return `<section>\n${parts.join('\n')}\n</section>`;
+  });
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+pre { background: #f5f5f5; padding: 0.75rem; white-space: pre-wrap; }
+.error { color: #b00020; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Provider: ${escapeHtml(provider ?? 'unknown')} &middot; Runs: ${runs.length}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderInput(input: PromptInput | undefined): string {
+  if (input === undefined) return '';
+  if (typeof input === 'string') return input;
+  return input.map(message => `${message.role}: ${message.content}`).join('\n\n');
+}
+
+function describeUsage(usage: UsageStats): string {
+  const parts = [`${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out tokens`];
+  if (usage.costUsd !== undefined) parts.push(`$${usage.costUsd.toFixed(4)}`);
+  if (usage.durationMs !== undefined) parts.push(`${usage.durationMs} ms`);
+  return parts.join(', ');
+}
+
+function describeError(error: unknown): { message: string; code: string } {
+  return { message: error instanceof Error ? error.message : String(error), code: classifyError(error) };
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
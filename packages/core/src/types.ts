@@ -2,6 +2,8 @@
  * @fileoverview Shared type definitions for headless-coder-sdk adapters.
  */
 
+import type { HeadlessCoderErrorCode } from './errors.js';
+
 /**
  * Provider discriminant used for selecting a headless-coder-sdk implementation.
  */
@@ -43,6 +45,116 @@ export interface StartOpts {
   yolo?: boolean;
   permissionMode?: string;
   permissionPromptToolName?: string;
+  /** Default retry policy for every run on the thread (requires a coder from createCoder). */
+  retry?: RetryPolicy;
+  /** Default budget applied to every run on the thread (requires a coder from createCoder). */
+  budget?: RunBudget;
+  /** Snapshot `workingDirectory` before every run so it can be diffed or rolled back (requires createCoder). */
+  checkpoint?: boolean | CheckpointOptions;
+  /** Run the thread in a dedicated git worktree branched from a base ref (requires createCoder). */
+  isolation?: 'worktree' | WorktreeOptions;
+  /** Compare `workingDirectory` before and after each run and report the result in RunResult.changes. */
+  trackChanges?: boolean | ChangeTrackingOptions;
+}
+
+/**
+ * Configures how run change reports snapshot the working directory.
+ */
+export interface ChangeTrackingOptions {
+  /** `git` snapshots through a temporary index; `copy` copies files. `auto` (default) prefers git. */
+  strategy?: 'auto' | 'git' | 'copy';
+  /** Path segments skipped by the `copy` strategy. Defaults to `.git` and `node_modules`. */
+  ignore?: string[];
+}
+
+/**
+ * Configures the git worktree created for an isolated thread.
+ */
+export interface WorktreeOptions {
+  /** Commit-ish the worktree branches from. Defaults to `HEAD` of `workingDirectory`. */
+  baseRef?: string;
+  /** Branch created for the worktree. Defaults to `headless-coder/<id>`. */
+  branch?: string;
+  /** Parent directory for worktrees. Defaults to `<os tmpdir>/headless-coder-worktrees`. */
+  directory?: string;
+}
+
+/**
+ * Git worktree backing an isolated thread.
+ */
+export interface WorktreeInfo {
+  /** Worktree checkout the adapter runs in. */
+  path: string;
+  branch: string;
+  baseRef: string;
+  baseCommit: string;
+  /** Top-level directory of the repository the worktree belongs to. */
+  repository: string;
+}
+
+export interface WorktreeMergeResult {
+  branch: string;
+  /** HEAD of the repository after the merge. */
+  commit: string;
+}
+
+/**
+ * Configures workspace snapshots taken before each run.
+ */
+export interface CheckpointOptions {
+  /** `git` stores snapshots as commits on a shadow ref; `copy` copies files. `auto` (default) prefers git. */
+  strategy?: 'auto' | 'git' | 'copy';
+  /** Path segments skipped by the copy strategy. Defaults to `['.git', 'node_modules']`. */
+  ignore?: string[];
+  /** Older checkpoints beyond this count are pruned. Defaults to 20. */
+  maxCheckpoints?: number;
+}
+
+/**
+ * Workspace snapshot taken before a run.
+ */
+export interface Checkpoint {
+  id: string;
+  strategy: 'git' | 'copy';
+  createdAt: number;
+  /** Shadow ref (git) or snapshot directory (copy) holding the files. */
+  location: string;
+  /** Excerpt of the prompt that triggered the run. */
+  label?: string;
+}
+
+/**
+ * Limits enforced while a run executes; exceeding any of them interrupts the run with code `budget_exceeded`.
+ *
+ * Token and cost limits are checked against `usage` events, so they take effect when the provider reports usage
+ * (typically at the end of a turn). `maxCostUsd` needs a provider-reported cost or a registered price.
+ */
+export interface RunBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  /** Wall-clock limit for the run, including retries. */
+  maxDurationMs?: number;
+  maxToolCalls?: number;
+}
+
+/**
+ * Opt-in policy for re-issuing a failed turn on the same thread.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay. Defaults to 30000ms. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after every attempt. Defaults to 2. */
+  backoffFactor?: number;
+  /** Fraction (0-1) of each delay that is randomised. Defaults to 0.2. */
+  jitter?: number;
+  /** Decides whether a failure is transient. Defaults to isRetryableError(). */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+  /** Observer invoked before each retry is scheduled. */
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
 }
 
 /**
@@ -53,6 +165,73 @@ export interface RunOpts {
   streamPartialMessages?: boolean;
   extraEnv?: Record<string, string>;
   signal?: AbortSignal;
+  /** Aborts the run after this many milliseconds; reported with code `timeout`. */
+  timeoutMs?: number;
+  /** Aborts the run when the provider sends nothing for this many milliseconds; reported with code `idle_timeout`. */
+  idleTimeoutMs?: number;
+  /** Interval for `heartbeat` progress events while a tool call runs. Defaults to 15000; `0` disables them. */
+  heartbeatMs?: number;
+  /** Retry policy for this run; `false` disables a thread-level policy. */
+  retry?: RetryPolicy | false;
+  /** Budget for this run; `false` disables a thread-level budget. */
+  budget?: RunBudget | false;
+  /** Re-prompts the thread with validation errors until `json` matches `outputSchema` (requires `outputSchema`). */
+  repair?: RepairPolicy;
+  /** Overrides StartOpts.trackChanges for this run; `false` skips the change report. */
+  trackChanges?: boolean;
+  /** How `input` was rendered by a prompt template; reported on the `init` event (requires createCoder). */
+  prompt?: RenderedPrompt;
+}
+
+/**
+ * Output of PromptTemplate.render(): the input to send plus what went into it, so runs can be reproduced.
+ */
+export interface RenderedPrompt {
+  /** Template name, when the template has one. */
+  template?: string;
+  input: PromptInput;
+  /** Variable values after defaults were applied. */
+  variables: Record<string, unknown>;
+  /** Files inlined by `@file` and `@glob` directives, relative to `workingDirectory`. */
+  files: InlinedFile[];
+}
+
+export interface InlinedFile {
+  path: string;
+  /** Size of the file on disk. */
+  bytes: number;
+  /** Bytes included in the prompt; lower than `bytes` when a size limit truncated the file. */
+  includedBytes: number;
+  truncated: boolean;
+}
+
+/**
+ * Controls repair turns issued when structured output does not match RunOpts.outputSchema.
+ */
+export interface RepairPolicy {
+  /** Repair turns to attempt after the initial run. Defaults to 2. */
+  maxAttempts?: number;
+  /** Builds the repair prompt; defaults to listing the validation errors and asking for corrected JSON. */
+  buildPrompt?: (errors: SchemaValidationIssue[], result: RunResult) => PromptInput;
+}
+
+/**
+ * Single JSON Schema violation, with `path` as a JSON pointer into the offending value.
+ */
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+  keyword?: string;
+}
+
+/**
+ * Outcome of validating RunResult.json against RunOpts.outputSchema.
+ */
+export interface OutputValidation {
+  valid: boolean;
+  errors: SchemaValidationIssue[];
+  /** Repair turns that were issued before this result was returned. */
+  repairAttempts: number;
 }
 
 /**
@@ -66,13 +245,52 @@ export interface ThreadHandle {
   runStreamed(input: PromptInput, opts?: RunOpts): EventIterator;
   interrupt?(reason?: string): Promise<void>;
   close?(): Promise<void>;
+  /** Available when the thread was started with `checkpoint`; newest last. */
+  listCheckpoints?(): Promise<Checkpoint[]>;
+  /** Rolls `workingDirectory` back to the state captured by the checkpoint. */
+  restore?(checkpointId: string): Promise<void>;
+  /** Unified diff from the checkpoint to the current state of `workingDirectory`. */
+  diffCheckpoint?(checkpointId: string): Promise<string>;
+  /** Present when the thread was started with `isolation: 'worktree'`. */
+  worktree?: WorktreeInfo;
+  /** Commits pending worktree changes and merges the branch into the repository's checked-out branch. */
+  merge?(options?: { message?: string }): Promise<WorktreeMergeResult>;
+  /** Unified diff of the worktree (including uncommitted and untracked files) against its base commit. */
+  diff?(): Promise<string>;
+  /** Removes the worktree and deletes its branch; later runs on the thread fail. */
+  discard?(): Promise<void>;
+  /** `StartOpts.workingDirectory` the thread was started with (threads from createCoder). */
+  workingDirectory?: string;
+  /** Set on threads created by handoff(): the thread the conversation was handed off from. */
+  handoff?: HandoffLink;
+}
+
+/**
+ * Link from a thread created by handoff() back to the thread it continues.
+ */
+export interface HandoffLink {
+  provider: Provider;
+  threadId?: string;
+  /** Summary the source thread wrote before the handoff, when requested. */
+  summary?: string;
+  /** Context prepended to the first prompt of the new thread. */
+  context: string;
 }
 
 /**
  * Streaming events emitted by adapters during live runs.
  */
 export type CoderStreamEvent =
-  | { type: 'init'; provider: Provider; threadId?: string; model?: string; ts: number; originalItem?: any }
+  | {
+      type: 'init';
+      provider: Provider;
+      threadId?: string;
+      model?: string;
+      /** Present when the run was given `RunOpts.prompt`. */
+      prompt?: RenderedPrompt;
+      ts: number;
+      originalItem?: any;
+    }
   | {
       type: 'message';
       provider: Provider;
@@ -137,14 +355,17 @@ export type CoderStreamEvent =
   | {
       type: 'usage';
       provider: Provider;
-      stats?: { inputTokens?: number; outputTokens?: number; [k: string]: any };
+      stats?: UsageStats;
+      /** Provider-native usage payload the normalized stats were derived from. */
+      rawStats?: unknown;
       ts: number;
       originalItem?: any;
     }
   | {
       type: 'error';
       provider: Provider;
-      code?: string;
+      /** A HeadlessCoderErrorCode; other layers may add codes of their own. */
+      code?: HeadlessCoderErrorCode | (string & {});
       message: string;
       ts: number;
       originalItem?: any;
@@ -152,18 +373,69 @@ export type CoderStreamEvent =
   | { type: 'cancelled'; provider: Provider; ts: number; originalItem?: any }
   | { type: 'done'; provider: Provider; ts: number; originalItem?: any };
 
+/**
+ * File that differs between the pre-run and post-run working directory.
+ */
+export interface ChangedFile {
+  /** Path relative to `workingDirectory`, with `/` separators. */
+  path: string;
+  op: 'create' | 'modify' | 'delete';
+  /** Unified diff for the file. */
+  patch: string;
+}
+
+/**
+ * Working directory changes made during a run, regardless of what the provider reported in its events.
+ */
+export interface RunChanges {
+  created: string[];
+  modified: string[];
+  deleted: string[];
+  files: ChangedFile[];
+}
+
 export type EventIterator = AsyncIterable<CoderStreamEvent>;
 
 export const now = () => Date.now();
 
 /**
- * Result returned after a run completes.
+ * Provider-neutral usage accounting for a run.
+ */
+export interface UsageStats {
+  inputTokens?: number;
+  /** Output tokens, including any reasoning tokens. */
+  outputTokens?: number;
+  /** Input tokens served from the provider's prompt cache (included in inputTokens where the provider reports it so). */
+  cachedInputTokens?: number;
+  /** Reasoning ("thinking") tokens, already counted in outputTokens; set only when the provider reports them. */
+  reasoningTokens?: number;
+  totalTokens?: number;
+  toolCalls?: number;
+  durationMs?: number;
+  /** Cost in USD, reported by the provider or estimated from the registered price table. */
+  costUsd?: number;
+  costSource?: 'provider' | 'estimate';
+  model?: string;
+}
+
+/**
+ * Result returned after a run completes. `T` types `json` for results produced by runStructured().
  */
-export interface RunResult {
+export interface RunResult<T = unknown> {
   threadId?: string;
+  /** Provider that served the run (set by composite coders such as createFallbackCoder). */
+  provider?: Provider;
   text?: string;
-  json?: unknown;
-  usage?: any;
+  json?: T;
+  usage?: UsageStats;
+  /** Provider-native usage payload `usage` was normalized from. */
+  rawUsage?: unknown;
+  /** Present when the run had an `outputSchema` (requires a coder from createCoder). */
+  validation?: OutputValidation;
+  /** Snapshot taken before the run and the diff to the post-run workspace (threads started with `checkpoint`). */
+  checkpoint?: { id: string; diff: string };
+  /** Files the run created, modified or deleted in `workingDirectory` (threads started with `trackChanges`). */
+  changes?: RunChanges;
   raw?: any;
 }
 
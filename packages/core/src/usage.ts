@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Usage normalisation helpers and the pluggable price table used for cost estimates.
+ */
+
+import type { UsageStats } from './types.js';
+
+/**
+ * USD prices per million tokens for a model.
+ */
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+  /** Price for cached input tokens; defaults to `inputPerMTok`. */
+  cachedInputPerMTok?: number;
+  /** Price for reasoning tokens; defaults to `outputPerMTok`. */
+  reasoningPerMTok?: number;
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+let priceTable: PriceTable = {};
+
+/**
+ * Replaces the price table used by estimateCost(). The SDK ships without prices; callers provide their own.
+ */
+export function setPriceTable(table: PriceTable): void {
+  priceTable = { ...table };
+}
+
+/**
+ * Adds or replaces pricing for a single model (or model prefix such as `gpt-5`).
+ */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  priceTable[model] = pricing;
+}
+
+/**
+ * Resolves pricing by exact model name, falling back to the longest registered prefix.
+ */
+export function getModelPricing(model?: string): ModelPricing | undefined {
+  if (!model) return undefined;
+  if (priceTable[model]) return priceTable[model];
+  const prefix = Object.keys(priceTable)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? priceTable[prefix] : undefined;
+}
+
+/**
+ * Estimates the USD cost of a run. Cached input tokens are assumed to be part of `inputTokens`, and reasoning tokens
+ * part of `outputTokens`.
+ *
+ * @returns The estimate, or undefined when no pricing is registered for the model.
+ */
+export function estimateCost(usage: UsageStats, model = usage.model): number | undefined {
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+  const cached = usage.cachedInputTokens ?? 0;
+  const freshInput = Math.max((usage.inputTokens ?? 0) - cached, 0);
+  const reasoning = usage.reasoningTokens ?? 0;
+  const visibleOutput = Math.max((usage.outputTokens ?? 0) - reasoning, 0);
+  const cost =
+    freshInput * pricing.inputPerMTok +
+    cached * (pricing.cachedInputPerMTok ?? pricing.inputPerMTok) +
+    visibleOutput * pricing.outputPerMTok +
+    reasoning * (pricing.reasoningPerMTok ?? pricing.outputPerMTok);
+  return cost / 1_000_000;
+}
+
+/**
+ * Drops undefined fields, derives totalTokens, and fills in a cost estimate when the provider did not report one.
+ * Adapters call this at the end of their provider-specific normalisers.
+ */
+export function finalizeUsage(usage: UsageStats): UsageStats {
+  const stats: UsageStats = {};
+  for (const [key, value] of Object.entries(usage) as Array<[keyof UsageStats, unknown]>) {
+    if (value !== undefined && !(typeof value === 'number' && Number.isNaN(value))) {
+      (stats as any)[key] = value;
+    }
+  }
+  if (stats.totalTokens === undefined && (stats.inputTokens !== undefined || stats.outputTokens !== undefined)) {
+    stats.totalTokens = (stats.inputTokens ?? 0) + (stats.outputTokens ?? 0);
+  }
+  if (stats.costUsd !== undefined) {
+    stats.costSource ??= 'provider';
+  } else {
+    const estimate = estimateCost(stats);
+    if (estimate !== undefined) {
+      stats.costUsd = estimate;
+      stats.costSource = 'estimate';
+    }
+  }
+  return stats;
+}
+
+/**
+ * Sums two usage records (used when a logical run spans several provider turns).
+ */
+export function mergeUsage(a: UsageStats | undefined, b: UsageStats | undefined): UsageStats | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+  return finalizeUsage({
+    inputTokens: sum(a.inputTokens, b.inputTokens),
+    outputTokens: sum(a.outputTokens, b.outputTokens),
+    cachedInputTokens: sum(a.cachedInputTokens, b.cachedInputTokens),
+    reasoningTokens: sum(a.reasoningTokens, b.reasoningTokens),
+    totalTokens: sum(a.totalTokens, b.totalTokens),
+    toolCalls: sum(a.toolCalls, b.toolCalls),
+    durationMs: sum(a.durationMs, b.durationMs),
+    costUsd: sum(a.costUsd, b.costUsd),
+    costSource: a.costSource === 'estimate' || b.costSource === 'estimate' ? 'estimate' : a.costSource ?? b.costSource,
+    model: a.model === b.model ? a.model : a.model ?? b.model,
+  });
+}
+
+/**
+ * Reads a finite number from a loosely typed provider payload.
+ */
+export function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview JSON Schema validation of structured output, with optional repair turns on the same thread.
+ */
+
+import { Ajv } from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { decorateThread } from './decorate.js';
+import type { ThreadDecorator } from './decorate.js';
+import type { PromptInput, RepairPolicy, RunResult, SchemaValidationIssue } from './types.js';
+import { mergeUsage } from './usage.js';
+
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+// Provider schemas often carry draft-specific `$schema` URIs or vendor keywords, so neither is rejected here.
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true, strict: false, validateSchema: false });
+const validators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * @returns The violations found; an empty array means the value conforms.
+ * @throws When the schema itself cannot be compiled.
+ */
+export function validateAgainstSchema(schema: object, value: unknown): SchemaValidationIssue[] {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  if (value === undefined) {
+    return [{ path: '', message: 'no JSON payload found in the response', keyword: 'required' }];
+  }
+  return validate(value) ? [] : (validate.errors ?? []).map(toIssue);
+}
+
+/**
+ * Pulls the JSON payload out of a model reply. The first ```json fence wins when there is one; otherwise the whole
+ * reply is parsed, then the span from the first `{` to the last `}`, then from the first `[` to the last `]`.
+ *
+ * @returns The parsed object or array, or undefined when nothing parses.
+ */
+export function extractJsonPayload(text: string | undefined): unknown | undefined {
+  if (!text) return undefined;
+  const fenced = text.match(/```json\s*([\s\S]+?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  for (const [open, close] of [['', ''], ['{', '}'], ['[', ']']]) {
+    const start = open ? candidate.indexOf(open) : 0;
+    const end = close ? candidate.lastIndexOf(close) + 1 : candidate.length;
+    if (start === -1 || end <= start) continue;
+    try {
+      const value = JSON.parse(candidate.slice(start, end));
+      if (value !== null && typeof value === 'object') return value;
+    } catch {
+      // Try the next span.
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Thread decorator that validates `RunResult.json` whenever RunOpts.outputSchema is set and issues repair turns
+ * when RunOpts.repair is configured. Streams are passed through untouched.
+ */
+export const validationDecorator: ThreadDecorator = inner =>
+  decorateThread(inner, {
+    run: async (input, opts) => {
+      const schema = opts?.outputSchema;
+      if (!schema) return inner.run(input, opts);
+      const maxRepairs = opts.repair ? (opts.repair.maxAttempts ?? DEFAULT_REPAIR_ATTEMPTS) : 0;
+      let result = await inner.run(input, opts);
+      let usage = result.usage;
+      let errors = validateAgainstSchema(schema, result.json);
+      let repairAttempts = 0;
+      while (errors.length && repairAttempts < maxRepairs) {
+        repairAttempts += 1;
+        result = await inner.run(buildRepairPrompt(opts.repair!, errors, result), opts);
+        usage = mergeUsage(usage, result.usage);
+        errors = validateAgainstSchema(schema, result.json);
+      }
+      return { ...result, usage, validation: { valid: errors.length === 0, errors, repairAttempts } };
+    },
+  });
+
+/** Prompt for the next repair turn; pipeline steps issue the same turns over streams. */
+export function buildRepairPrompt(
+  policy: RepairPolicy,
+  errors: SchemaValidationIssue[],
+  result: RunResult,
+): PromptInput {
+  if (policy.buildPrompt) return policy.buildPrompt(errors, result);
+  const lines = errors.map(error => `- ${error.path || '(root)'}: ${error.message}`);
+  return [
+    'Your previous response did not match the required JSON schema:',
+    ...lines,
+    'Respond again with only the corrected JSON object so that it satisfies the schema.',
+  ].join('\n');
+}
+
+function toIssue(error: ErrorObject): SchemaValidationIssue {
+  const path =
+    error.keyword === 'required' || error.keyword === 'additionalProperties'
+      ? `${error.instancePath}/${(error.params as any).missingProperty ?? (error.params as any).additionalProperty}`
+      : error.instancePath;
+  return { path, message: error.message ?? 'is invalid', keyword: error.keyword };
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Per-thread git worktree isolation: each thread works on its own branch and checkout.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import type { CoderDecoration, ThreadDecorator } from './decorate.js';
+import { decorateThread } from './decorate.js';
+import { MergeConflictError } from './errors.js';
+import { commitIdentity, git, writeWorkTree } from './git.js';
+import type { StartOpts, WorktreeInfo, WorktreeMergeResult, WorktreeOptions } from './types.js';
+
+interface WorktreeSession {
+  info: WorktreeInfo;
+  state: 'active' | 'discarded' | 'closed';
+}
+
+/** Sessions created by prepareStart(), handed to the thread decorator through the prepared StartOpts. */
+const pending = new WeakMap<StartOpts, WorktreeSession>();
+/** Live sessions keyed by worktree path so close() can find them from any decorated handle. */
+const sessions = new Map<string, WorktreeSession>();
+
+/**
+ * Coder hooks that create a worktree before the adapter starts and clean it up when the thread is closed.
+ */
+export const worktreeDecoration: CoderDecoration = {
+  prepareStart: async opts => {
+    if (!opts.isolation) return opts;
+    const options: WorktreeOptions = opts.isolation === 'worktree' ? {} : opts.isolation;
+    const session: WorktreeSession = { info: await createWorktree(opts.workingDirectory, options), state: 'active' };
+    const prepared = { ...opts, workingDirectory: session.info.path };
+    pending.set(prepared, session);
+    sessions.set(session.info.path, session);
+    return prepared;
+  },
+  onClose: async thread => {
+    const session = thread.worktree ? sessions.get(thread.worktree.path) : undefined;
+    if (session) await closeSession(session);
+  },
+  onStartFailed: async opts => {
+    const session = pending.get(opts);
+    if (session) await discardSession(session);
+  },
+};
+
+/**
+ * Thread decorator exposing worktree, merge(), diff() and discard() on isolated threads.
+ */
+export const worktreeDecorator: ThreadDecorator = (inner, startOpts) => {
+  const session = pending.get(startOpts);
+  if (!session) return inner;
+  const { info } = session;
+
+  const assertActive = () => {
+    if (session.state !== 'active') {
+      throw new Error(`Worktree ${info.path} was ${session.state}; start a new thread to keep working.`);
+    }
+  };
+
+  return decorateThread(
+    inner,
+    {
+      run: async (input, opts) => {
+        assertActive();
+        return inner.run(input, opts);
+      },
+      runStreamed: (input, opts) => {
+        assertActive();
+        return inner.runStreamed(input, opts);
+      },
+    },
+    {
+      worktree: { ...info },
+      merge: async (options?: { message?: string }): Promise<WorktreeMergeResult> => {
+        assertActive();
+        await commitPending(info, options?.message ?? `headless-coder: changes from ${info.branch}`);
+        // The merge runs in the user's main checkout; aborting a conflicted merge there could lose their edits.
+        const dirty = await git(info.repository, ['status', '--porcelain', '--untracked-files=no']);
+        if (dirty.trim()) {
+          throw new Error(`Cannot merge ${info.branch}: ${info.repository} has uncommitted changes.`);
+        }
+        const env = await commitIdentity(info.repository);
+        try {
+          await git(info.repository, ['merge', '--no-ff', '--no-edit', info.branch], env);
+        } catch (error) {
+          const unmerged = await git(info.repository, ['diff', '--name-only', '-z', '--diff-filter=U']).catch(() => '');
+          const conflicts = unmerged.split('\0').filter(Boolean);
+          if (!conflicts.length) {
+            throw new Error(`Merging ${info.branch} failed: ${(error as Error).message}`, { cause: error });
+          }
+          await git(info.repository, ['merge', '--abort']).catch(() => {});
+          throw new MergeConflictError(`Merging ${info.branch} conflicts in ${conflicts.join(', ')}`, {
+            conflicts,
+            cause: error,
+          });
+        }
+        const commit = (await git(info.repository, ['rev-parse', 'HEAD'])).trim();
+        return { branch: info.branch, commit };
+      },
+      diff: async () => {
+        assertActive();
+        // Diffs a tree written through a temporary index, so the worktree's staging area is left alone.
+        const tree = await writeWorkTree(info.path);
+        return git(info.path, ['diff', '--no-color', '--binary', info.baseCommit, tree]);
+      },
+      discard: () => discardSession(session),
+    },
+  );
+};
+
+async function createWorktree(workingDirectory: string | undefined, options: WorktreeOptions): Promise<WorktreeInfo> {
+  const cwd = path.resolve(workingDirectory ?? process.cwd());
+  const repository = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const baseRef = options.baseRef ?? 'HEAD';
+  const baseCommit = (await git(cwd, ['rev-parse', '--verify', `${baseRef}^{commit}`])).trim();
+  const id = `wt-${Date.now().toString(36)}-${randomUUID().slice(0, 8)}`;
+  const branch = options.branch ?? `headless-coder/${id}`;
+  const parent = path.resolve(options.directory ?? path.join(tmpdir(), 'headless-coder-worktrees'));
+  await mkdir(parent, { recursive: true });
+  const worktreeRoot = path.join(parent, id);
+  await git(repository, ['worktree', 'add', '-b', branch, worktreeRoot, baseCommit]);
+  // Keep threads that target a subdirectory of the repository in the matching subdirectory of the worktree.
+  const worktreePath = path.join(worktreeRoot, path.relative(repository, cwd));
+  return { path: worktreePath, branch, baseRef, baseCommit, repository };
+}
+
+async function commitPending(info: WorktreeInfo, message: string): Promise<boolean> {
+  await git(info.path, ['add', '-A']);
+  const staged = await git(info.path, ['diff', '--cached', '--quiet']).then(
+    () => false,
+    () => true,
+  );
+  if (staged) {
+    await git(info.path, ['commit', '-q', '--no-verify', '-m', message], await commitIdentity(info.path));
+  }
+  return staged;
+}
+
+async function removeWorktree(session: WorktreeSession): Promise<void> {
+  const root = (await git(session.info.path, ['rev-parse', '--show-toplevel']).catch(() => session.info.path)).trim();
+  await git(session.info.repository, ['worktree', 'remove', '--force', root]).catch(() => {});
+  sessions.delete(session.info.path);
+}
+
+async function discardSession(session: WorktreeSession): Promise<void> {
+  if (session.state === 'discarded') return;
+  await removeWorktree(session);
+  await git(session.info.repository, ['branch', '-D', session.info.branch]).catch(() => {});
+  session.state = 'discarded';
+}
+
+/**
+ * Closing keeps the work: pending changes are committed to the branch, the checkout is removed, and the branch is
+ * deleted only when it never moved past the base commit.
+ */
+async function closeSession(session: WorktreeSession): Promise<void> {
+  if (session.state !== 'active') return;
+  const { info } = session;
+  await commitPending(info, `headless-coder: uncommitted changes from ${info.branch}`).catch(() => false);
+  await removeWorktree(session);
+  const tip = await git(info.repository, ['rev-parse', '--verify', info.branch]).catch(() => '');
+  if (tip.trim() === info.baseCommit) {
+    await git(info.repository, ['branch', '-D', info.branch]).catch(() => {});
+  }
+  session.state = 'closed';
+}
@@ -5,14 +5,28 @@
 import { spawn, spawnSync, ChildProcess } from 'node:child_process';
 import * as readline from 'node:readline';
 import { once } from 'node:events';
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
 import {
   now,
   registerAdapter,
   getAdapterFactory,
   createCoder,
+  createUnifiedPatch,
+  finalizeUsage,
+  toFiniteNumber,
+  extractJsonPayload,
+  BusyError,
+  InterruptedError,
+  classifyError,
+  toHeadlessCoderError,
+  createRunDeadline,
+  withHeartbeat,
 } from '@headless-coder-sdk/core';
 import type {
   AdapterFactory,
+  HeadlessCoderError,
+  RunDeadline,
   HeadlessCoder,
   ThreadHandle,
   PromptInput,
@@ -22,6 +36,7 @@ import type {
   CoderStreamEvent,
   EventIterator,
   Provider,
+  UsageStats,
 } from '@headless-coder-sdk/core';
 
 export const CODER_NAME: Provider = 'gemini';
@@ -65,6 +80,7 @@ interface ActiveRun {
   child: ChildProcess;
   abortController: AbortController;
   stopExternal: () => void;
+  deadline: RunDeadline;
   aborted: boolean;
   abortReason?: string;
   softKillTimer?: NodeJS.Timeout;
@@ -108,20 +124,6 @@ function applyOutputSchemaPrompt(input: PromptInput, schema?: object): string {
   return toPrompt([{ role: 'system', content: instruction }, ...input]);
 }
 
-function extractJsonPayload(text: string | undefined): unknown | undefined {
-  if (!text) return undefined;
-  const fenced = text.match(/```json\s*([\s\S]+?)```/i);
-  const candidate = (fenced ? fenced[1] : text).trim();
-  const start = candidate.indexOf('{');
-  const end = candidate.lastIndexOf('}');
-  if (start === -1 || end === -1 || end < start) return undefined;
-  try {
-    return JSON.parse(candidate.slice(start, end + 1));
-  } catch {
-    return undefined;
-  }
-}
-
 function captureGeminiSessionMetadata(state: GeminiThreadState, handle: ThreadHandle | undefined, payload: any): void {
   const sessionId = extractSessionId(payload);
   if (sessionId) {
@@ -298,10 +300,10 @@ export class GeminiAdapter implements HeadlessCoder {
     try {
       const { stdout, stderr, exitCode } = await waitForChild(child);
       if (active.aborted) {
-        throw createAbortError(active.abortReason);
+        throw active.deadline.expired ?? createAbortError(active.abortReason);
       }
       if (exitCode !== 0) {
-        throw new Error(`gemini exited with code ${exitCode}: ${stderr}`);
+        throw toHeadlessCoderError(`gemini exited with code ${exitCode}: ${stderr}`, CODER_NAME);
       }
       const parsed = parseGeminiJson(stdout);
       captureGeminiSessionMetadata(state, handle, parsed);
@@ -314,9 +316,12 @@ export class GeminiAdapter implements HeadlessCoder {
         threadId: state.id,
         text,
         json: structured ?? parsed.json,
-        usage: parsed.stats,
+        usage: normalizeGeminiUsage(parsed.stats, state.opts.model),
+        rawUsage: parsed.stats,
         raw: parsed,
       };
+    } catch (error) {
+      throw toHeadlessCoderError(error, CODER_NAME);
     } finally {
       cleanup();
     }
@@ -344,6 +349,11 @@ export class GeminiAdapter implements HeadlessCoder {
     const { child, active, cleanup } = this.spawnGeminiProcess(state, prompt, 'stream-json', opts);
     const queue: Array<CoderStreamEvent | typeof DONE | Error> = [];
     const waiters: Array<(entry: CoderStreamEvent | typeof DONE | Error) => void> = [];
+    const turn: GeminiTurnTracker = {
+      model: state.opts.model,
+      workingDirectory: state.opts.workingDirectory,
+      pendingEdits: new Map(),
+    };
     let finished = false;
 
     const push = (entry: CoderStreamEvent | typeof DONE | Error) => {
@@ -360,6 +370,10 @@ export class GeminiAdapter implements HeadlessCoder {
       return new Promise<CoderStreamEvent | typeof DONE | Error>(resolve => waiters.push(resolve));
     };
 
+    // Drained so a chatty CLI cannot block on a full pipe; the text explains non-zero exits.
+    const stderrChunks: Buffer[] = [];
+    child.stderr?.on('data', chunk => stderrChunks.push(Buffer.from(chunk)));
+
     const rl = readline.createInterface({ input: child.stdout });
     const handleLine = (line: string) => {
       if (finished) return;
@@ -370,7 +384,7 @@ export class GeminiAdapter implements HeadlessCoder {
         return;
       }
       captureGeminiSessionMetadata(state, handle, event);
-      for (const normalized of normalizeGeminiEvent(event)) {
+      for (const normalized of normalizeGeminiEvent(event, turn)) {
         push(normalized);
       }
     };
@@ -385,7 +399,7 @@ export class GeminiAdapter implements HeadlessCoder {
         ts: now(),
         originalItem: { reason },
       });
-      push(interruptedErrorEvent(reason));
+      push(interruptedErrorEvent(reason, active.deadline.expired));
       push(DONE);
     };
     rl.once('close', handleClose);
@@ -401,12 +415,13 @@ export class GeminiAdapter implements HeadlessCoder {
           ts: now(),
           originalItem: { reason },
         });
-        push(interruptedErrorEvent(reason));
+        push(interruptedErrorEvent(reason, active.deadline.expired));
         push(DONE);
         return;
       }
       if (code !== 0) {
-        push(new Error(`gemini exited with code ${code}`));
+        const stderr = Buffer.concat(stderrChunks).toString('utf8');
+        push(toHeadlessCoderError(`gemini exited with code ${code}: ${stderr}`, CODER_NAME));
       } else if (!state.id || !state.resumeToken) {
         updateSessionMetadataFromList(state, handle);
       }
@@ -417,7 +432,7 @@ export class GeminiAdapter implements HeadlessCoder {
     child.once('error', error => {
       if (finished) return;
       finished = true;
-      push(error);
+      push(toHeadlessCoderError(error, CODER_NAME));
       push(DONE);
     });
 
@@ -439,7 +454,11 @@ export class GeminiAdapter implements HeadlessCoder {
       }.bind(this),
     };
 
-    return iterator;
+    return withHeartbeat(iterator, {
+      provider: CODER_NAME,
+      intervalMs: opts?.heartbeatMs,
+      onAbandon: () => this.abortChild(state, 'Stream closed'),
+    });
   }
 
   /**
@@ -497,9 +516,13 @@ export class GeminiAdapter implements HeadlessCoder {
       child,
       abortController,
       stopExternal,
+      deadline: createRunDeadline(opts, error => this.abortChild(state, error.message), CODER_NAME),
       aborted: false,
     };
     state.currentRun = active;
+    // Any CLI output counts as activity for RunOpts.idleTimeoutMs.
+    child.stdout?.on('data', active.deadline.touch);
+    child.stderr?.on('data', active.deadline.touch);
 
     child.once('error', () => {
       // handled by waiters
@@ -514,6 +537,7 @@ export class GeminiAdapter implements HeadlessCoder {
         closeHandler?: () => void,
       ) => {
         stopExternal();
+        active.deadline.dispose();
         this.clearKillTimers(active);
         if (lineHandler && rl) {
           rl.off('line', lineHandler);
@@ -573,18 +597,37 @@ export class GeminiAdapter implements HeadlessCoder {
 
   private assertIdle(state: GeminiThreadState): void {
     if (state.currentRun) {
-      throw new Error('Gemini adapter only supports one in-flight run per thread.');
+      throw new BusyError('Gemini adapter only supports one in-flight run per thread.', { provider: CODER_NAME });
     }
   }
 }
 
-function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
+/**
+ * Per-stream state: the model (stream-json `result` stats omit it) and file edits announced by `tool_use`
+ * that become `file_change` events once their `tool_result` succeeds.
+ */
+interface GeminiTurnTracker {
+  model?: string;
+  workingDirectory?: string;
+  pendingEdits: Map<string, PendingFileEdit>;
+}
+
+interface PendingFileEdit {
+  path: string;
+  op: 'create' | 'modify';
+  patch: string;
+}
+
+const GEMINI_EDIT_TOOLS = new Set(['write_file', 'replace']);
+
+function normalizeGeminiEvent(event: any, turn: GeminiTurnTracker): CoderStreamEvent[] {
   const ts = now();
   const provider: Provider = CODER_NAME;
   const ev = event ?? {};
 
   switch (ev.type) {
     case 'init':
+      turn.model = ev.model ?? turn.model;
       return [
         {
           type: 'init',
@@ -608,6 +651,7 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
         },
       ];
     case 'tool_use':
+      trackGeminiEdit(ev, turn);
       return [
         {
           type: 'tool_use',
@@ -619,13 +663,14 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
           originalItem: ev,
         },
       ];
-    case 'tool_result':
-      return [
+    case 'tool_result': {
+      const callId = ev.tool_id ?? ev.call_id ?? ev.id ?? null;
+      const out: CoderStreamEvent[] = [
         {
           type: 'tool_result',
           provider,
           name: ev.tool_name ?? ev.name ?? 'tool',
-          callId: ev.tool_id ?? ev.call_id ?? ev.id ?? null,
+          callId,
           result: ev.output ?? ev.result ?? ev.response ?? null,
           exitCode: ev.exit_code ?? ev.status ?? null,
           error: ev.error ?? null,
@@ -633,11 +678,21 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
           originalItem: ev,
         },
       ];
+      const edit = callId ? turn.pendingEdits.get(callId) : undefined;
+      if (edit) {
+        turn.pendingEdits.delete(callId);
+        if (ev.status !== 'error' && !ev.error) {
+          out.push({ type: 'file_change', provider, ...edit, ts, originalItem: ev });
+        }
+      }
+      return out;
+    }
     case 'error':
       return [
         {
           type: 'error',
           provider,
+          code: classifyError(ev.message ?? ev.error?.message ?? ''),
           message: ev.message ?? 'gemini error',
           ts,
           originalItem: ev,
@@ -646,7 +701,14 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
     case 'result': {
       const out: CoderStreamEvent[] = [];
       if (ev.stats) {
-        out.push({ type: 'usage', provider, stats: ev.stats, ts, originalItem: ev });
+        out.push({
+          type: 'usage',
+          provider,
+          stats: normalizeGeminiUsage(ev.stats, turn.model),
+          rawStats: ev.stats,
+          ts,
+          originalItem: ev,
+        });
       }
       out.push({ type: 'done', provider, ts, originalItem: ev });
       return out;
@@ -664,6 +726,87 @@ function normalizeGeminiEvent(event: any): CoderStreamEvent[] {
   }
 }
 
+/**
+ * Snapshots the target of a `write_file` / `replace` call before the CLI applies it, so the resulting
+ * `file_change` can carry a unified patch.
+ */
+function trackGeminiEdit(ev: any, turn: GeminiTurnTracker): void {
+  const name = ev.tool_name ?? ev.name;
+  const callId = ev.tool_id ?? ev.call_id ?? ev.id;
+  const params = ev.parameters ?? ev.args ?? ev.input ?? {};
+  const filePath = params.file_path ?? params.absolute_path ?? params.path;
+  if (!GEMINI_EDIT_TOOLS.has(name) || !callId || typeof filePath !== 'string') return;
+  const before = readFileIfExists(path.resolve(turn.workingDirectory ?? process.cwd(), filePath));
+  let after: string;
+  if (name === 'write_file') {
+    after = String(params.content ?? '');
+  } else {
+    const oldString = String(params.old_string ?? '');
+    const newString = String(params.new_string ?? '');
+    if (before === undefined || oldString === '') {
+      after = newString;
+    } else {
+      after =
+        (params.expected_replacements ?? 1) > 1
+          ? before.split(oldString).join(newString)
+          : before.replace(oldString, () => newString);
+    }
+  }
+  turn.pendingEdits.set(callId, {
+    path: filePath,
+    op: before === undefined ? 'create' : 'modify',
+    patch: createUnifiedPatch(filePath, before, after),
+  });
+}
+
+function readFileIfExists(filePath: string): string | undefined {
+  try {
+    return readFileSync(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Maps Gemini CLI stats onto UsageStats. `--output-format json` reports per-model token buckets under
+ * `stats.models`, while stream-json results carry flat `input_tokens`/`output_tokens` counters. Gemini reports
+ * `thoughts` apart from `candidates`, so they are added to `outputTokens`.
+ */
+function normalizeGeminiUsage(stats: any, model?: string): UsageStats | undefined {
+  if (!stats || typeof stats !== 'object') return undefined;
+  const models = stats.models && typeof stats.models === 'object' ? Object.entries<any>(stats.models) : [];
+  if (models.length) {
+    const sum = (pick: (entry: any) => unknown) =>
+      models.reduce<number | undefined>((total, [, entry]) => {
+        const value = toFiniteNumber(pick(entry));
+        return value === undefined ? total : (total ?? 0) + value;
+      }, undefined);
+    const candidates = sum(entry => entry?.tokens?.candidates);
+    const thoughts = sum(entry => entry?.tokens?.thoughts);
+    const outputTokens =
+      candidates === undefined && thoughts === undefined ? undefined : (candidates ?? 0) + (thoughts ?? 0);
+    return finalizeUsage({
+      inputTokens: sum(entry => entry?.tokens?.prompt),
+      outputTokens,
+      cachedInputTokens: sum(entry => entry?.tokens?.cached),
+      reasoningTokens: thoughts,
+      totalTokens: sum(entry => entry?.tokens?.total),
+      toolCalls: toFiniteNumber(stats.tools?.totalCalls),
+      durationMs: sum(entry => entry?.api?.totalLatencyMs),
+      model: models.length === 1 ? models[0][0] : model,
+    });
+  }
+  return finalizeUsage({
+    inputTokens: toFiniteNumber(stats.input_tokens),
+    outputTokens: toFiniteNumber(stats.output_tokens),
+    cachedInputTokens: toFiniteNumber(stats.cached_tokens ?? stats.cached),
+    totalTokens: toFiniteNumber(stats.total_tokens),
+    toolCalls: toFiniteNumber(stats.tool_calls),
+    durationMs: toFiniteNumber(stats.duration_ms),
+    model,
+  });
+}
+
 function buildGeminiArgs(
   opts: StartOpts,
   prompt: string,
@@ -726,10 +869,7 @@ function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string)
 }
 
 function createAbortError(reason?: string): Error {
-  const error = new Error(reason ?? 'Operation was interrupted');
-  error.name = 'AbortError';
-  (error as any).code = 'interrupted';
-  return error;
+  return new InterruptedError(reason, { provider: CODER_NAME });
 }
 
 function reasonToString(reason: unknown): string | undefined {
@@ -738,11 +878,11 @@ function reasonToString(reason: unknown): string | undefined {
   return undefined;
 }
 
-function interruptedErrorEvent(reason?: string): CoderStreamEvent {
+function interruptedErrorEvent(reason?: string, timeout?: HeadlessCoderError): CoderStreamEvent {
   return {
     type: 'error',
     provider: CODER_NAME,
-    code: 'interrupted',
+    code: timeout?.code ?? 'interrupted',
     message: reason ?? 'Operation was interrupted',
     ts: now(),
     originalItem: { reason },
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Fixture format plus the recorder that captures real thread traffic for replay.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  AdapterFactory,
+  CoderStreamEvent,
+  EventIterator,
+  HeadlessCoder,
+  PromptInput,
+  Provider,
+  RunOpts,
+  RunResult,
+  StartOpts,
+  ThreadHandle,
+} from '@headless-coder-sdk/core';
+
+export const FIXTURE_VERSION = 1;
+
+const MAX_CAPTURED_FILE_BYTES = 256 * 1024;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+// Handles recording into the same file share one write queue, so saves never interleave.
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * Serialised failure captured while recording a turn.
+ */
+export interface MockTurnError {
+  message: string;
+  name?: string;
+  code?: string;
+}
+
+/**
+ * Single scripted turn. Streams replay `events`; `run()` returns `result` (or one derived from `events`).
+ */
+export interface MockTurn {
+  input?: PromptInput;
+  threadId?: string;
+  events?: CoderStreamEvent[];
+  result?: RunResult;
+  error?: MockTurnError;
+  delayMs?: number;
+  /**
+   * Text files the turn left in the working directory, keyed by relative path (`null` when deleted). Replay writes
+   * them back so suites that inspect generated files pass offline.
+   */
+  files?: Record<string, string | null>;
+}
+
+/**
+ * Fixture file consumed by the mock adapter and produced by the recorder.
+ */
+export interface MockFixture {
+  version: number;
+  provider?: Provider;
+  threadId?: string;
+  turns: MockTurn[];
+}
+
+export interface RecorderOptions {
+  /** Path the fixture is written to after every recorded turn. */
+  fixturePath?: string;
+  /** Existing fixture to append to (defaults to an empty one). */
+  fixture?: MockFixture;
+  /** Directory whose text file changes are captured into each turn's `files`. */
+  workingDirectory?: string;
+  /** Invoked after each turn is appended to the fixture. */
+  onTurn?: (turn: MockTurn, fixture: MockFixture) => void;
+}
+
+export interface RecordingThreadHandle extends ThreadHandle {
+  readonly fixture: MockFixture;
+  save(): Promise<void>;
+}
+
+/**
+ * Reads a fixture file from disk.
+ *
+ * @throws When the file is not a recognised fixture.
+ */
+export async function loadFixture(fixturePath: string): Promise<MockFixture> {
+  const raw = await readFile(fixturePath, 'utf8');
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.turns)) {
+    throw new Error(`Mock fixture at ${fixturePath} must contain a "turns" array.`);
+  }
+  return { version: parsed.version ?? FIXTURE_VERSION, ...parsed } as MockFixture;
+}
+
+/**
+ * Writes a fixture file, creating parent directories as needed.
+ */
+export async function saveFixture(fixturePath: string, fixture: MockFixture): Promise<void> {
+  await mkdir(path.dirname(fixturePath), { recursive: true });
+  await writeFile(fixturePath, `${safeStringify(fixture)}\n`, 'utf8');
+}
+
+/**
+ * Wraps a live thread handle so every run/runStreamed turn is captured into a fixture.
+ *
+ * The returned handle behaves exactly like the original one; recording never alters events or results.
+ */
+export function recordThread(handle: ThreadHandle, options: RecorderOptions = {}): RecordingThreadHandle {
+  const fixture: MockFixture = options.fixture ?? {
+    version: FIXTURE_VERSION,
+    provider: handle.provider,
+    turns: [],
+  };
+  const save = (): Promise<void> => {
+    if (!options.fixturePath) return Promise.resolve();
+    const target = path.resolve(options.fixturePath);
+    const pending = (writeQueues.get(target) ?? Promise.resolve()).then(() => saveFixture(target, fixture));
+    writeQueues.set(target, pending.catch(() => {}));
+    return pending;
+  };
+
+  const append = async (turn: MockTurn): Promise<void> => {
+    fixture.turns.push(turn);
+    fixture.provider ??= handle.provider;
+    fixture.threadId ??= turn.threadId;
+    options.onTurn?.(turn, fixture);
+    await save();
+  };
+
+  const snapshot = async () =>
+    options.workingDirectory ? readWorkspace(path.resolve(options.workingDirectory)) : undefined;
+  const changedFiles = async (before: Map<string, string | undefined> | undefined) =>
+    before && diffWorkspace(before, await readWorkspace(path.resolve(options.workingDirectory!)));
+
+  const run = async (input: PromptInput, opts?: RunOpts): Promise<RunResult> => {
+    const before = await snapshot();
+    try {
+      const result = await handle.run(input, opts);
+      const files = await changedFiles(before);
+      await append({ input, threadId: result.threadId ?? handle.id, result: toPlain(result), files });
+      return result;
+    } catch (error) {
+      await append({ input, threadId: handle.id, error: toTurnError(error), files: await changedFiles(before) });
+      throw error;
+    }
+  };
+
+  const runStreamed = (input: PromptInput, opts?: RunOpts): EventIterator => {
+    const inner = handle.runStreamed(input, opts);
+    return {
+      async *[Symbol.asyncIterator]() {
+        const before = await snapshot();
+        const events: CoderStreamEvent[] = [];
+        let failure: MockTurnError | undefined;
+        try {
+          for await (const event of inner) {
+            events.push(toPlain(event));
+            yield event;
+          }
+        } catch (error) {
+          failure = toTurnError(error);
+          throw error;
+        } finally {
+          await append({ input, threadId: handle.id, events, error: failure, files: await changedFiles(before) });
+        }
+      },
+    };
+  };
+
+  const recording: RecordingThreadHandle = {
+    get provider() {
+      return handle.provider;
+    },
+    get internal() {
+      return handle.internal;
+    },
+    get id() {
+      return handle.id;
+    },
+    set id(value) {
+      handle.id = value;
+    },
+    fixture,
+    save,
+    run,
+    runStreamed,
+    interrupt: handle.interrupt ? reason => handle.interrupt!(reason) : undefined,
+    close: handle.close ? () => handle.close!() : undefined,
+  };
+  return recording;
+}
+
+/**
+ * Decorates an adapter factory so every thread it creates is recorded into a single fixture file.
+ *
+ * All coders created by the factory append to the same fixture, in the order their turns complete. The decorated
+ * factory keeps the original `coderName`, so it can be registered in place of the real adapter.
+ */
+export function withRecording(factory: AdapterFactory, options: RecorderOptions = {}): AdapterFactory {
+  const fixture: MockFixture = options.fixture ?? { version: FIXTURE_VERSION, turns: [] };
+  const recordingFactory = ((defaults?: StartOpts): HeadlessCoder => {
+    const coder = factory(defaults);
+    const originals = new WeakMap<ThreadHandle, ThreadHandle>();
+    const wrap = (thread: ThreadHandle, opts?: StartOpts): ThreadHandle => {
+      const workingDirectory =
+        options.workingDirectory ?? opts?.workingDirectory ?? defaults?.workingDirectory ?? process.cwd();
+      const recorded = recordThread(thread, { ...options, fixture, workingDirectory });
+      originals.set(recorded, thread);
+      return recorded;
+    };
+    const unwrap = (thread: ThreadHandle): ThreadHandle => originals.get(thread) ?? thread;
+    return {
+      startThread: async opts => wrap(await coder.startThread(opts), opts),
+      resumeThread: async (threadId, opts) => wrap(await coder.resumeThread(threadId, opts), opts),
+      getThreadId: thread => coder.getThreadId(unwrap(thread)),
+      close: coder.close ? thread => coder.close!(unwrap(thread)) : undefined,
+    };
+  }) as AdapterFactory;
+  recordingFactory.coderName = factory.coderName;
+  return recordingFactory;
+}
+
+/**
+ * Reads the files under `root`, skipping `.git` and `node_modules`. Binaries and files too large to replay are listed
+ * without content.
+ */
+async function readWorkspace(root: string, prefix = ''): Promise<Map<string, string | undefined>> {
+  const files = new Map<string, string | undefined>();
+  const entries = await readdir(path.join(root, prefix), { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      for (const [file, content] of await readWorkspace(root, relative)) files.set(file, content);
+    } else if (entry.isFile()) {
+      const content = await readFile(path.join(root, relative)).catch(() => undefined);
+      const replayable = content && content.length <= MAX_CAPTURED_FILE_BYTES && !content.includes(0);
+      files.set(relative, replayable ? content.toString('utf8') : undefined);
+    }
+  }
+  return files;
+}
+
+function diffWorkspace(
+  before: Map<string, string | undefined>,
+  after: Map<string, string | undefined>,
+): Record<string, string | null> | undefined {
+  const files: Record<string, string | null> = {};
+  for (const [file, content] of after) {
+    if (content !== undefined && before.get(file) !== content) files[file] = content;
+  }
+  for (const file of before.keys()) {
+    if (!after.has(file)) files[file] = null;
+  }
+  return Object.keys(files).length ? files : undefined;
+}
+
+function toTurnError(error: unknown): MockTurnError {
+  if (error instanceof Error) {
+    const code = (error as any).code;
+    return { message: error.message, name: error.name, code: typeof code === 'string' ? code : undefined };
+  }
+  return { message: String(error) };
+}
+
+function toPlain<T>(value: T): T {
+  return JSON.parse(safeStringify(value ?? null)) as T;
+}
+
+function safeStringify(value: unknown): string {
+  const ancestors: object[] = [];
+  return JSON.stringify(
+    value,
+    function (this: unknown, _key, candidate) {
+      if (typeof candidate === 'bigint') return candidate.toString();
+      if (!candidate || typeof candidate !== 'object') return candidate;
+      while (ancestors.length && ancestors[ancestors.length - 1] !== this) {
+        ancestors.pop();
+      }
+      if (ancestors.includes(candidate)) return '[Circular]';
+      ancestors.push(candidate);
+      return candidate;
+    },
+    2,
+  );
+}
@@ -0,0 +1,427 @@
+/**
+ * @fileoverview Mock adapter that replays scripted or recorded turns through the HeadlessCoder contract
+ * without touching a real provider, CLI, or network.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  now,
+  registerAdapter,
+  getAdapterFactory,
+  createCoder,
+  BusyError,
+  InterruptedError,
+  HEADLESS_CODER_ERROR_CODES,
+  createHeadlessCoderError,
+  createRunDeadline,
+  withHeartbeat,
+} from '@headless-coder-sdk/core';
+import type {
+  AdapterFactory,
+  HeadlessCoderErrorCode,
+  RunDeadline,
+  AdapterName,
+  HeadlessCoder,
+  ThreadHandle,
+  PromptInput,
+  StartOpts,
+  RunOpts,
+  RunResult,
+  CoderStreamEvent,
+  EventIterator,
+  Provider,
+  UsageStats,
+} from '@headless-coder-sdk/core';
+import { loadFixture } from './fixtures.js';
+import type { MockFixture, MockTurn } from './fixtures.js';
+
+export * from './fixtures.js';
+
+export const CODER_NAME: AdapterName = 'mock';
+
+/**
+ * Options controlling what the mock adapter replays.
+ */
+export interface MockAdapterOptions {
+  /** Registry name for the factory. Use a real provider name (e.g. `codex`) to stand in for that adapter. */
+  coderName?: AdapterName;
+  /** Provider reported on handles and synthesised events. Defaults to the fixture's provider, then `codex`. */
+  provider?: Provider;
+  /** Inline script to replay. */
+  fixture?: MockFixture;
+  /** Fixture file produced by the recorder; loaded lazily on the first run. */
+  fixturePath?: string;
+  /** Delay inserted before each replayed event unless the turn sets its own `delayMs`. */
+  eventDelayMs?: number;
+}
+
+export function createAdapter(defaults?: StartOpts): HeadlessCoder {
+  return new MockAdapter({}, defaults);
+}
+(createAdapter as AdapterFactory).coderName = CODER_NAME;
+
+export function createHeadlessMock(defaults?: StartOpts): HeadlessCoder {
+  if (!getAdapterFactory(CODER_NAME)) {
+    registerAdapter(createAdapter as AdapterFactory);
+  }
+  return createCoder(CODER_NAME, defaults);
+}
+
+/**
+ * Builds an adapter factory that replays the supplied fixture.
+ *
+ * Each coder created by the factory consumes its own copy of the script, so repeated `createCoder()` calls
+ * replay from the first turn.
+ */
+export function createMockAdapter(options: MockAdapterOptions = {}): AdapterFactory {
+  const factory = ((defaults?: StartOpts): HeadlessCoder => new MockAdapter(options, defaults)) as AdapterFactory;
+  factory.coderName = options.coderName ?? CODER_NAME;
+  return factory;
+}
+
+const KNOWN_PROVIDERS: Provider[] = ['codex', 'claude', 'gemini'];
+
+interface MockThreadState {
+  id?: string;
+  opts: StartOpts;
+  currentRun?: ActiveRun | null;
+}
+
+interface ActiveRun {
+  abortController: AbortController;
+  stopExternal: () => void;
+  deadline?: RunDeadline;
+  aborted: boolean;
+  abortReason?: string;
+}
+
+export class MockAdapter implements HeadlessCoder {
+  private fixturePromise?: Promise<MockFixture | undefined>;
+  private readonly consumed = new Set<number>();
+
+  constructor(
+    private readonly options: MockAdapterOptions = {},
+    private readonly defaultOpts?: StartOpts,
+  ) {}
+
+  async startThread(opts?: StartOpts): Promise<ThreadHandle> {
+    const merged = { ...this.defaultOpts, ...opts };
+    return this.createThreadHandle({ id: merged.resume, opts: merged });
+  }
+
+  async resumeThread(threadId: string, opts?: StartOpts): Promise<ThreadHandle> {
+    const merged = { ...this.defaultOpts, ...opts };
+    return this.createThreadHandle({ id: threadId, opts: merged });
+  }
+
+  getThreadId(thread: ThreadHandle): string | undefined {
+    const state = thread.internal as MockThreadState;
+    return state.id;
+  }
+
+  private get provider(): Provider {
+    if (this.options.provider) return this.options.provider;
+    if (this.options.fixture?.provider) return this.options.fixture.provider;
+    const name = this.options.coderName as Provider | undefined;
+    return name && KNOWN_PROVIDERS.includes(name) ? name : 'codex';
+  }
+
+  private createThreadHandle(state: MockThreadState): ThreadHandle {
+    const handle: ThreadHandle = {
+      provider: this.provider,
+      internal: state,
+      id: state.id,
+      run: (input, opts) => this.runInternal(handle, input, opts),
+      runStreamed: (input, opts) => this.runStreamedInternal(handle, input, opts),
+      interrupt: async reason => {
+        this.abortCurrentRun(state, reason ?? 'Interrupted');
+      },
+    };
+    return handle;
+  }
+
+  private async runInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): Promise<RunResult> {
+    const state = handle.internal as MockThreadState;
+    const active = this.beginRun(state, opts);
+    try {
+      const { turn, fixture } = await this.nextTurn(input);
+      await this.sleep(this.turnDelay(turn), active);
+      const threadId = this.captureThreadId(state, handle, turn, fixture);
+      await this.writeFiles(state, turn);
+      if (turn.error) {
+        throw reviveError(turn.error);
+      }
+      const result = turn.result ?? deriveResult(turn.events ?? [], input);
+      return { ...result, threadId: result.threadId ?? threadId };
+    } catch (error) {
+      if (active.aborted) {
+        throw active.deadline?.expired ?? createAbortError(active.abortReason);
+      }
+      throw error;
+    } finally {
+      this.endRun(state, active);
+    }
+  }
+
+  private runStreamedInternal(handle: ThreadHandle, input: PromptInput, opts?: RunOpts): EventIterator {
+    const state = handle.internal as MockThreadState;
+    const active = this.beginRun(state, opts);
+    const adapter = this;
+    const iterator: EventIterator = {
+      async *[Symbol.asyncIterator]() {
+        try {
+          const { turn, fixture } = await adapter.nextTurn(input);
+          const threadId = adapter.captureThreadId(state, handle, turn, fixture);
+          const events =
+            turn.events ?? (turn.error ? [] : synthesizeEvents(adapter.provider, threadId, turn.result, input));
+          let written = false;
+          for (const event of events) {
+            await adapter.sleep(adapter.turnDelay(turn), active);
+            active.deadline?.touch();
+            if (event.type === 'done') {
+              await adapter.writeFiles(state, turn);
+              written = true;
+            }
+            yield { ...event, ts: now() } as CoderStreamEvent;
+          }
+          if (!written) await adapter.writeFiles(state, turn);
+          if (turn.error) {
+            throw reviveError(turn.error);
+          }
+        } catch (error) {
+          if (active.aborted) {
+            const reason = active.abortReason ?? 'Interrupted';
+            yield { type: 'cancelled', provider: adapter.provider, ts: now(), originalItem: { reason } };
+            yield {
+              type: 'error',
+              provider: adapter.provider,
+              code: active.deadline?.expired?.code ?? 'interrupted',
+              message: reason,
+              ts: now(),
+              originalItem: { reason },
+            };
+            return;
+          }
+          throw error;
+        } finally {
+          adapter.endRun(state, active);
+        }
+      },
+    };
+    return withHeartbeat(iterator, {
+      provider: this.provider,
+      intervalMs: opts?.heartbeatMs,
+      onAbandon: () => this.abortCurrentRun(state, 'Stream closed'),
+    });
+  }
+
+  private beginRun(state: MockThreadState, opts?: RunOpts): ActiveRun {
+    if (state.currentRun) {
+      throw new BusyError('Mock adapter only supports one in-flight run per thread.');
+    }
+    const abortController = new AbortController();
+    const active: ActiveRun = {
+      abortController,
+      stopExternal: () => {},
+      aborted: false,
+    };
+    active.stopExternal = linkSignal(opts?.signal, reason => this.abortCurrentRun(state, reason ?? 'Interrupted'));
+    active.deadline = createRunDeadline(opts, error => this.abortCurrentRun(state, error.message), this.provider);
+    state.currentRun = active;
+    if (opts?.signal?.aborted) {
+      this.abortCurrentRun(state, reasonToString(opts.signal.reason) ?? 'Interrupted');
+    }
+    return active;
+  }
+
+  private endRun(state: MockThreadState, active: ActiveRun): void {
+    active.stopExternal();
+    active.deadline?.dispose();
+    if (state.currentRun === active) {
+      state.currentRun = null;
+    }
+  }
+
+  private abortCurrentRun(state: MockThreadState, reason?: string): void {
+    const active = state.currentRun;
+    if (!active || active.aborted) return;
+    active.aborted = true;
+    active.abortReason = reason ?? 'Interrupted';
+    active.abortController.abort(active.abortReason);
+  }
+
+  private async loadScript(): Promise<MockFixture | undefined> {
+    if (this.options.fixture) return this.options.fixture;
+    if (!this.options.fixturePath) return undefined;
+    this.fixturePromise ??= loadFixture(this.options.fixturePath);
+    return this.fixturePromise;
+  }
+
+  /**
+   * Picks the first unconsumed turn whose recorded input matches, falling back to script order.
+   * Without any script the adapter echoes the prompt back.
+   *
+   * @throws When a script exists but every turn has already been replayed.
+   */
+  private async nextTurn(input: PromptInput): Promise<{ turn: MockTurn; fixture?: MockFixture }> {
+    const fixture = await this.loadScript();
+    if (!fixture) {
+      return { turn: { result: { text: `mock: ${promptText(input)}` } } };
+    }
+    const prompt = promptText(input);
+    let index = fixture.turns.findIndex(
+      (turn, i) => !this.consumed.has(i) && turn.input !== undefined && promptText(turn.input) === prompt,
+    );
+    if (index === -1) {
+      index = fixture.turns.findIndex((_turn, i) => !this.consumed.has(i));
+    }
+    if (index === -1) {
+      throw new Error(`Mock script exhausted: no turn left to replay for prompt "${truncate(prompt)}".`);
+    }
+    this.consumed.add(index);
+    return { turn: fixture.turns[index], fixture };
+  }
+
+  private captureThreadId(
+    state: MockThreadState,
+    handle: ThreadHandle,
+    turn: MockTurn,
+    fixture?: MockFixture,
+  ): string {
+    const threadId = state.id ?? turn.threadId ?? turn.result?.threadId ?? fixture?.threadId ?? `mock-${randomUUID()}`;
+    state.id = threadId;
+    handle.id = threadId;
+    return threadId;
+  }
+
+  /**
+   * Restores the files a recorded turn left in the working directory.
+   */
+  private async writeFiles(state: MockThreadState, turn: MockTurn): Promise<void> {
+    if (!turn.files) return;
+    const root = path.resolve(state.opts.workingDirectory ?? process.cwd());
+    for (const [file, content] of Object.entries(turn.files)) {
+      const target = path.resolve(root, file);
+      const relative = path.relative(root, target);
+      if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`Mock fixture file ${file} is outside the working directory.`);
+      }
+      if (content === null) {
+        await rm(target, { force: true });
+      } else {
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, content, 'utf8');
+      }
+    }
+  }
+
+  private turnDelay(turn: MockTurn): number {
+    return turn.delayMs ?? this.options.eventDelayMs ?? 0;
+  }
+
+  private async sleep(ms: number, active: ActiveRun): Promise<void> {
+    const signal = active.abortController.signal;
+    if (signal.aborted) throw createAbortError(active.abortReason);
+    if (ms <= 0) return;
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError(active.abortReason));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+function promptText(input: PromptInput): string {
+  if (typeof input === 'string') return input;
+  return input.map(message => `${message.role}: ${message.content}`).join('\n');
+}
+
+function truncate(text: string, max = 80): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function deriveResult(events: CoderStreamEvent[], input: PromptInput): RunResult {
+  let text: string | undefined;
+  let deltas = '';
+  let usage: UsageStats | undefined;
+  let rawUsage: unknown;
+  for (const event of events) {
+    if (event.type === 'message' && event.role === 'assistant') {
+      if (event.delta) {
+        deltas += event.text ?? '';
+      } else if (event.text !== undefined) {
+        text = event.text;
+      }
+    } else if (event.type === 'usage') {
+      usage = event.stats;
+      rawUsage = event.rawStats;
+    }
+  }
+  return {
+    text: text ?? (deltas || `mock: ${promptText(input)}`),
+    usage,
+    rawUsage,
+    raw: { replayed: true, events: events.length },
+  };
+}
+
+function synthesizeEvents(
+  provider: Provider,
+  threadId: string,
+  result: RunResult | undefined,
+  input: PromptInput,
+): CoderStreamEvent[] {
+  const ts = now();
+  const text = result?.text ?? `mock: ${promptText(input)}`;
+  const events: CoderStreamEvent[] = [
+    { type: 'init', provider, threadId, ts, originalItem: { mock: true } },
+    { type: 'message', provider, role: 'assistant', text, ts, originalItem: { mock: true } },
+  ];
+  if (result?.usage) {
+    events.push({
+      type: 'usage',
+      provider,
+      stats: result.usage,
+      rawStats: result.rawUsage,
+      ts,
+      originalItem: { mock: true },
+    });
+  }
+  events.push({ type: 'done', provider, ts, originalItem: { mock: true } });
+  return events;
+}
+
+function reviveError(recorded: { message: string; name?: string; code?: string }): Error {
+  // Taxonomy codes replay as the matching HeadlessCoderError subclass so `instanceof` checks behave like live runs.
+  const error = HEADLESS_CODER_ERROR_CODES.includes(recorded.code as HeadlessCoderErrorCode)
+    ? createHeadlessCoderError(recorded.code as HeadlessCoderErrorCode, recorded.message)
+    : new Error(recorded.message);
+  if (recorded.name) error.name = recorded.name;
+  if (recorded.code) (error as any).code = recorded.code;
+  return error;
+}
+
+function linkSignal(signal: AbortSignal | undefined, onAbort: (reason?: string) => void): () => void {
+  if (!signal) return () => {};
+  const handler = () => onAbort(reasonToString(signal.reason));
+  signal.addEventListener('abort', handler, { once: true });
+  return () => signal.removeEventListener('abort', handler);
+}
+
+function createAbortError(reason?: string): Error {
+  return new InterruptedError(reason);
+}
+
+function reasonToString(reason: unknown): string | undefined {
+  if (typeof reason === 'string') return reason;
+  if (reason instanceof Error && reason.message) return reason.message;
+  return undefined;
+}
@@ -13,6 +13,7 @@ const packages = [
   { name: '@headless-coder-sdk/codex-adapter', dir: 'packages/codex-adapter' },
   { name: '@headless-coder-sdk/claude-adapter', dir: 'packages/claude-adapter' },
   { name: '@headless-coder-sdk/gemini-adapter', dir: 'packages/gemini-adapter' },
+  { name: '@headless-coder-sdk/mock-adapter', dir: 'packages/mock-adapter' },
 ];
 
 function run(command, args, { cwd = rootDir, capture = false } = {}) {
@@ -54,11 +55,14 @@ const core = require('@headless-coder-sdk/core');
 const codex = require('@headless-coder-sdk/codex-adapter');
 const claude = require('@headless-coder-sdk/claude-adapter');
 const gemini = require('@headless-coder-sdk/gemini-adapter');
+const mock = require('@headless-coder-sdk/mock-adapter');
 
 assert.equal(typeof core.createCoder, 'function');
 assert.equal(typeof codex.createAdapter, 'function');
 assert.equal(typeof claude.createAdapter, 'function');
 assert.equal(typeof gemini.createAdapter, 'function');
+assert.equal(typeof mock.createAdapter, 'function');
+assert.equal(typeof mock.withRecording, 'function');
 assert.equal(typeof codex.createHeadlessCodex, 'function');
 assert.equal(typeof claude.createHeadlessClaude, 'function');
 assert.equal(typeof gemini.createHeadlessGemini, 'function');
@@ -72,6 +76,7 @@ import { clearRegisteredAdapters } from '@headless-coder-sdk/core';
 import { createHeadlessCodex } from '@headless-coder-sdk/codex-adapter';
 import { createHeadlessClaude } from '@headless-coder-sdk/claude-adapter';
 import { createHeadlessGemini } from '@headless-coder-sdk/gemini-adapter';
+import { createHeadlessMock } from '@headless-coder-sdk/mock-adapter';
 
 const codex = createHeadlessCodex();
 assert.equal(typeof codex.startThread, 'function');
@@ -85,6 +90,11 @@ const gemini = createHeadlessGemini({ workingDirectory: process.cwd() });
 assert.equal(typeof gemini.startThread, 'function');
 clearRegisteredAdapters();
 
+const mock = createHeadlessMock();
+const mockThread = await mock.startThread();
+assert.equal((await mockThread.run('ping')).text, 'mock: ping');
+clearRegisteredAdapters();
+
 console.log('[smoke] ESM imports succeeded');
 `.trimStart();
 